@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateCheck } from './check';
+import { MigrateResult } from './migrate';
+
+function result(files: string[], warnings: number): MigrateResult {
+  return {
+    report: {
+      startedAt: '2023-01-01T10:00:00Z',
+      options: {},
+      entries: [
+        ...Array.from({ length: warnings }, () => ({ file: 'a.ts', kind: 'warn' as const, message: 'w' })),
+        { file: 'a.ts', kind: 'note', message: 'n' }
+      ]
+    },
+    files: files.map(path => ({ path, before: 'a', after: 'b' }))
+  };
+}
+
+describe('evaluateCheck', () => {
+  it('passes when nothing is pending', () => {
+    expect(evaluateCheck(result([], 3), { pendingEdits: true })).toEqual({
+      passed: true,
+      pendingFiles: [],
+      warnings: 3,
+      failures: []
+    });
+  });
+
+  it('fails when edits are pending', () => {
+    const outcome = evaluateCheck(result(['/app/src/app.ts'], 0), { pendingEdits: true });
+    expect(outcome.passed).toBe(false);
+    expect(outcome.pendingFiles).toEqual(['/app/src/app.ts']);
+    expect(outcome.failures).toEqual(['1 file(s) still contain Aurelia 1 patterns au-rogue can migrate.']);
+  });
+
+  it('ignores pending edits unless asked', () => {
+    expect(evaluateCheck(result(['/app/src/app.ts'], 0), {}).passed).toBe(true);
+  });
+
+  it('fails only when warnings exceed the maximum', () => {
+    expect(evaluateCheck(result([], 2), { maxWarnings: 2 }).passed).toBe(true);
+    expect(evaluateCheck(result([], 3), { maxWarnings: 2 }).failures).toEqual(['3 warning(s) exceed the maximum of 2.']);
+    expect(evaluateCheck(result([], 1), { maxWarnings: 0 }).passed).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { MigrateResult } from './migrate.js';
+
+export interface CheckOptions {
+  /** Fail when any file would still be changed. */
+  pendingEdits?: boolean;
+  /** Fail when the report has more warnings than this. */
+  maxWarnings?: number;
+}
+
+export interface CheckOutcome {
+  passed: boolean;
+  /** Files the passes would change. */
+  pendingFiles: string[];
+  warnings: number;
+  /** One line per failed condition, for printing. */
+  failures: string[];
+}
+
+/**
+ * Gate a migration result for CI. Nothing is printed or exited here.
+ */
+export function evaluateCheck(result: MigrateResult, options: CheckOptions): CheckOutcome {
+  const pendingFiles = result.files.map(f => f.path);
+  const warnings = result.report.entries.filter(e => e.kind === 'warn').length;
+  const failures: string[] = [];
+
+  if (options.pendingEdits && pendingFiles.length > 0) {
+    failures.push(`${pendingFiles.length} file(s) still contain Aurelia 1 patterns au-rogue can migrate.`);
+  }
+  if (options.maxWarnings !== undefined && warnings > options.maxWarnings) {
+    failures.push(`${warnings} warning(s) exceed the maximum of ${options.maxWarnings}.`);
+  }
+
+  return { passed: failures.length === 0, pendingFiles, warnings, failures };
+}
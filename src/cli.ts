@@ -1,12 +1,36 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
-import fg from 'fast-glob';
-import { Project } from 'ts-morph';
-import * as ts from 'typescript';
+import { Command, InvalidArgumentError } from 'commander';
+import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { Reporter } from './types.js';
 import { writeReport } from './report.js';
-import { transformBindingEngine, transformDI, transformComputed, transformCustomElement, transformBindingSyntax, transformTemplates, transformPlatform, analyzePlatformUsage, transformLifecycle, suggestNewLifecycleHooks, detectLifecycleAntiPatterns, transformBootstrap, suggestCompatPackage, transformRouter, generateRouterMigrationGuide } from './passes/index.js';
+import { migrate, resolveTsConfig, defaultSources, defaultTemplates } from './migrate.js';
+import { passes, selectPasses, assertKnownPasses } from './passes/index.js';
+import { AuRogueConfig, PassSetting, findConfigFile, loadConfig } from './config.js';
+import { ruleCatalogMarkdown } from './rules.js';
+import { toPatch } from './diff.js';
+import { evaluateCheck } from './check.js';
+
+function commaList(value: string, previous: string[] = []) {
+  return previous.concat(value.split(',').map(v => v.trim()).filter(Boolean));
+}
+
+/**
+ * --apply-prevent is shorthand for `passes: { templates: { applyPrevent: true } }`.
+ * A templates pass disabled in the config stays disabled.
+ */
+function withApplyPrevent(passes: Record<string, PassSetting> = {}): Record<string, PassSetting> {
+  const templates = passes.templates;
+  if (templates === false) return passes;
+  return { ...passes, templates: { ...(typeof templates === 'object' ? templates : {}), applyPrevent: true } };
+}
+
+function count(value: string) {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new InvalidArgumentError('Expected a non-negative integer.');
+  }
+  return n;
+}
 
 const program = new Command();
 
@@ -14,58 +38,88 @@ program
   .name('au-rogue')
   .description('Conservative Aurelia 1 to 2 codemods with reporting')
   .option('--dry', 'dry run, do not write files', false)
-  .option('--sources <glob...>', 'glob for ts/js sources', ['src/**/*.{ts,tsx,js,jsx}'])
-  .option('--templates <glob...>', 'glob for html/au templates', ['src/**/*.{html,au}'])
+  .option('--check', 'dry run that exits with code 1 when any file would still be changed', false)
+  .option('--max-warnings <n>', 'exit with code 1 when the report has more than <n> warnings', count)
+  .option('--patch <file>', 'write a unified diff of all changes to <file> instead of changing files (implies --dry)')
+  .option('--config <file>', 'config file, defaults to au-rogue.config.{json,js,ts} in the working directory')
+  .option('--sources <glob...>', `glob for ts/js sources (default: ${defaultSources.join(' ')})`)
+  .option('--templates <glob...>', `glob for html/au templates (default: ${defaultTemplates.join(' ')})`)
+  .option('--tsconfig <file>', 'tsconfig.json used for type resolution (default: ./tsconfig.json when present)')
   .option('--compat', 'compat assist mode, only notes for now', false)
-  .option('--report-dir <dir>', 'directory for report files', '.')
+  .option('--apply-prevent', 'rewrite submit/link/submit-button handlers to *.trigger:prevent instead of warning', false)
+  .option('--report-dir <dir>', 'directory for report files (default: .)')
+  .option('--sarif', 'also write au-rogue.report.sarif (SARIF 2.1.0)', false)
+  .option('--html', 'also write au-rogue.report.html, a self-contained report with filters and diffs', false)
+  .option('--only <ids>', 'comma separated pass IDs to run, see --list-passes', commaList)
+  .option('--skip <ids>', 'comma separated pass IDs to skip', commaList)
+  .option('--list-passes', 'print the pass catalog and exit', false)
+  .option('--list-rules', 'print the rule catalog as Markdown and exit', false)
   .parse(process.argv);
 
 const opts = program.opts();
 const cwd = process.cwd();
-const reporter = new Reporter(opts);
 
-function unique(arr: string[]) { return Array.from(new Set(arr)); }
+if (opts.listPasses) {
+  for (const pass of passes) {
+    console.log(`${pass.id.padEnd(16)} ${pass.mode.padEnd(8)} ${pass.description}`);
+  }
+  process.exit(0);
+}
 
-const sourcePaths = unique(fg.sync(opts.sources, { cwd, absolute: true, ignore: ['**/node_modules/**', '**/dist/**'] }));
-const templatePaths = unique(fg.sync(opts.templates, { cwd, absolute: true, ignore: ['**/node_modules/**', '**/dist/**'] }));
+if (opts.listRules) {
+  console.log(ruleCatalogMarkdown());
+  process.exit(0);
+}
 
-const project = new Project({
-  compilerOptions: {
-    allowJs: true,
-    target: ts.ScriptTarget.ES2020 as any,
-    module: ts.ModuleKind.ESNext as any,
-    esModuleInterop: true,
-    skipLibCheck: true
+let config: AuRogueConfig = {};
+let tsconfig: string | false = false;
+const configFile = opts.config ? path.resolve(cwd, opts.config) : findConfigFile(cwd);
+try {
+  if (configFile) {
+    config = await loadConfig(configFile);
+    console.log(`Using config ${path.relative(cwd, configFile)}.`);
   }
-});
+  selectPasses(opts.only, opts.skip);
+  assertKnownPasses(Object.keys(config.passes ?? {}));
+  tsconfig = resolveTsConfig(cwd, opts.tsconfig ?? config.tsconfig) ?? false;
+} catch (e) {
+  program.error((e as Error).message);
+}
 
-project.addSourceFilesAtPaths(sourcePaths);
+const result = migrate({
+  cwd,
+  sources: opts.sources ?? config.sources,
+  templates: opts.templates ?? config.templates,
+  tsconfig,
+  dry: opts.dry || opts.check || !!opts.patch,
+  compat: opts.compat,
+  only: opts.only,
+  skip: opts.skip,
+  passes: opts.applyPrevent ? withApplyPrevent(config.passes) : config.passes,
+  rules: config.rules
+});
 
-transformBindingEngine(project, reporter);
-transformDI(project, reporter);
-transformComputed(project, reporter);
-transformCustomElement(project, reporter);
-transformBindingSyntax(project, reporter);
-transformPlatform(project, reporter);
-transformLifecycle(project, reporter);
-transformBootstrap(project, reporter);
-transformRouter(project, reporter);
-analyzePlatformUsage(project, reporter);
-suggestNewLifecycleHooks(project, reporter);
-detectLifecycleAntiPatterns(project, reporter);
-suggestCompatPackage(project, reporter);
-generateRouterMigrationGuide(project, reporter);
+writeReport(cwd, result.report, opts.reportDir ?? config.reportDir ?? '.', {
+  sarif: opts.sarif || config.sarif,
+  html: opts.html || config.html,
+  files: result.files
+});
 
-if (!opts.dry) {
-  project.saveSync();
+if (opts.patch) {
+  const patchFile = path.resolve(cwd, opts.patch);
+  fs.writeFileSync(patchFile, toPatch(result.files, cwd), 'utf8');
+  console.log(`Wrote ${result.files.length} changed file(s) to ${path.relative(cwd, patchFile)}. Apply with git apply.`);
 }
 
-transformTemplates(templatePaths, reporter, { write: !opts.dry });
+console.log('au-rogue finished. See au-rogue.report.md and au-rogue.report.json.');
 
-if (opts.compat) {
-  reporter.note('PROJECT', 'Compat mode requested. Register @aurelia/compat-v1 during migration, then remove it when done.');
+if (opts.check || opts.maxWarnings !== undefined) {
+  const outcome = evaluateCheck(result, { pendingEdits: opts.check, maxWarnings: opts.maxWarnings });
+  for (const failure of outcome.failures) {
+    console.error(failure);
+  }
+  if (opts.check) {
+    for (const file of outcome.pendingFiles) console.error(`  ${path.relative(cwd, file)}`);
+  }
+  if (!outcome.passed) process.exitCode = 1;
 }
-
-writeReport(cwd, reporter.finish(), opts.reportDir);
-
-console.log('au-rogue finished. See au-rogue.report.md and au-rogue.report.json.');
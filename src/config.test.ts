@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { findConfigFile, loadConfig, validateConfig } from './config';
+
+describe('config', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'au-rogue-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('returns null when no config file exists', () => {
+    expect(findConfigFile(cwd)).toBeNull();
+  });
+
+  it('prefers json, then js, then ts', () => {
+    fs.writeFileSync(path.join(cwd, 'au-rogue.config.ts'), 'export default {};');
+    expect(findConfigFile(cwd)).toBe(path.join(cwd, 'au-rogue.config.ts'));
+
+    fs.writeFileSync(path.join(cwd, 'au-rogue.config.json'), '{}');
+    expect(findConfigFile(cwd)).toBe(path.join(cwd, 'au-rogue.config.json'));
+  });
+
+  it('loads a JSON config', async () => {
+    const file = path.join(cwd, 'au-rogue.config.json');
+    fs.writeFileSync(file, JSON.stringify({
+      sources: ['app/**/*.ts'],
+      reportDir: 'reports',
+      passes: { router: false },
+      rules: { 'lifecycle/attached-without-detached': 'note' }
+    }));
+
+    const config = await loadConfig(file);
+
+    expect(config.sources).toEqual(['app/**/*.ts']);
+    expect(config.reportDir).toBe('reports');
+    expect(config.passes).toEqual({ router: false });
+    expect(config.rules).toEqual({ 'lifecycle/attached-without-detached': 'note' });
+  });
+
+  it('loads an ES module JS config', async () => {
+    const file = path.join(cwd, 'au-rogue.config.mjs');
+    fs.writeFileSync(file, `export default { templates: ['app/**/*.html'] };`);
+
+    const config = await loadConfig(file);
+
+    expect(config.templates).toEqual(['app/**/*.html']);
+  });
+
+  it('loads a TS config and cleans up the transpiled file', async () => {
+    const file = path.join(cwd, 'au-rogue.config.ts');
+    fs.writeFileSync(file, `
+const rules: Record<string, string> = { 'lifecycle/suggest-bound': 'off' };
+export default { rules };
+`);
+
+    const config = await loadConfig(file);
+
+    expect(config.rules).toEqual({ 'lifecycle/suggest-bound': 'off' });
+    expect(fs.readdirSync(cwd)).toEqual(['au-rogue.config.ts']);
+  });
+
+  it('rejects invalid shapes', () => {
+    expect(() => validateConfig([], 'c.json')).toThrow(/must export an object/);
+    expect(() => validateConfig({ sources: 'src/**/*.ts' }, 'c.json')).toThrow(/'sources' must be an array/);
+    expect(() => validateConfig({ reportDir: 1 }, 'c.json')).toThrow(/'reportDir' must be a string/);
+    expect(() => validateConfig({ passes: { di: 'yes' } }, 'c.json')).toThrow(/pass 'di'/);
+    expect(() => validateConfig({ rules: { 'lifecycle/suggest-bound': 'error' } }, 'c.json')).toThrow(/invalid severity 'error'/);
+    expect(() => validateConfig({ rules: { 'lifecycle/nope': 'off' } }, 'c.json')).toThrow(/unknown rule 'lifecycle\/nope'/);
+  });
+});
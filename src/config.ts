@@ -0,0 +1,126 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { ts } from 'ts-morph';
+import { RuleSeverity } from './types.js';
+import { getRule } from './rules.js';
+
+/**
+ * Options for a single pass. `false` disables the pass, an object enables it with options.
+ */
+export type PassSetting = boolean | Record<string, unknown>;
+
+export interface AuRogueConfig {
+  sources?: string[];
+  templates?: string[];
+  reportDir?: string;
+  /** Also write a SARIF 2.1.0 report. */
+  sarif?: boolean;
+  /** Also write a self-contained HTML report. */
+  html?: boolean;
+  tsconfig?: string;
+  passes?: Record<string, PassSetting>;
+  rules?: Record<string, RuleSeverity>;
+}
+
+export const configFileNames = ['au-rogue.config.json', 'au-rogue.config.js', 'au-rogue.config.ts'];
+
+const severities: RuleSeverity[] = ['warn', 'note', 'off'];
+
+/**
+ * Identity helper so TS and JS config files get type checking.
+ */
+export function defineConfig(config: AuRogueConfig): AuRogueConfig {
+  return config;
+}
+
+export function findConfigFile(cwd: string): string | null {
+  for (const name of configFileNames) {
+    const file = path.join(cwd, name);
+    if (fs.existsSync(file)) return file;
+  }
+  return null;
+}
+
+/**
+ * Load and validate a config file. JSON is parsed directly, JS is imported,
+ * TS is transpiled next to the original so relative imports keep working.
+ */
+export async function loadConfig(file: string): Promise<AuRogueConfig> {
+  const ext = path.extname(file);
+  let raw: unknown;
+
+  if (ext === '.json') {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } else if (ext === '.ts') {
+    const output = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+      fileName: file
+    });
+    const tmp = path.join(path.dirname(file), `.au-rogue.config.${process.pid}.mjs`);
+    fs.writeFileSync(tmp, output.outputText, 'utf8');
+    try {
+      raw = await importDefault(tmp);
+    } finally {
+      fs.rmSync(tmp, { force: true });
+    }
+  } else {
+    raw = await importDefault(file);
+  }
+
+  return validateConfig(raw, file);
+}
+
+async function importDefault(file: string): Promise<unknown> {
+  const mod = await import(pathToFileURL(file).href);
+  return mod.default ?? mod;
+}
+
+export function validateConfig(raw: unknown, file: string): AuRogueConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${file}: config must export an object`);
+  }
+  const config = raw as Record<string, unknown>;
+
+  for (const key of ['sources', 'templates']) {
+    const value = config[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some(v => typeof v !== 'string'))) {
+      throw new Error(`${file}: '${key}' must be an array of globs`);
+    }
+  }
+  for (const key of ['reportDir', 'tsconfig']) {
+    if (config[key] !== undefined && typeof config[key] !== 'string') {
+      throw new Error(`${file}: '${key}' must be a string`);
+    }
+  }
+  for (const key of ['sarif', 'html']) {
+    if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+      throw new Error(`${file}: '${key}' must be true or false`);
+    }
+  }
+  if (config.passes !== undefined) {
+    if (!config.passes || typeof config.passes !== 'object' || Array.isArray(config.passes)) {
+      throw new Error(`${file}: 'passes' must map pass IDs to true, false or an options object`);
+    }
+    for (const [id, setting] of Object.entries(config.passes)) {
+      if (typeof setting !== 'boolean' && (!setting || typeof setting !== 'object' || Array.isArray(setting))) {
+        throw new Error(`${file}: pass '${id}' must be true, false or an options object`);
+      }
+    }
+  }
+  if (config.rules !== undefined) {
+    if (!config.rules || typeof config.rules !== 'object' || Array.isArray(config.rules)) {
+      throw new Error(`${file}: 'rules' must map rule IDs to a severity`);
+    }
+    for (const [id, severity] of Object.entries(config.rules)) {
+      if (!getRule(id)) {
+        throw new Error(`${file}: unknown rule '${id}'. Run au-rogue --list-rules for the catalog`);
+      }
+      if (!severities.includes(severity as RuleSeverity)) {
+        throw new Error(`${file}: rule '${id}' has invalid severity '${severity}'. Use one of: ${severities.join(', ')}`);
+      }
+    }
+  }
+
+  return config as AuRogueConfig;
+}
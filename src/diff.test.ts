@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { diffLines, unifiedDiff, toPatch } from './diff';
+
+function render(a: string[], b: string[]) {
+  return diffLines(a, b).map(op => `${op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+'}${op.line}`);
+}
+
+describe('diffLines', () => {
+  it('returns only equal lines for identical input', () => {
+    expect(render(['a', 'b'], ['a', 'b'])).toEqual([' a', ' b']);
+  });
+
+  it('handles empty input', () => {
+    expect(render([], [])).toEqual([]);
+    expect(render([], ['a'])).toEqual(['+a']);
+    expect(render(['a'], [])).toEqual(['-a']);
+  });
+
+  it('finds a changed line between common lines', () => {
+    expect(render(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([' a', '-b', '+x', ' c']);
+  });
+
+  it('finds insertions and deletions in the middle of a file', () => {
+    expect(render(['a', 'b', 'c', 'd', 'e'], ['a', 'c', 'd', 'x', 'e'])).toEqual([' a', '-b', ' c', ' d', '+x', ' e']);
+  });
+
+  it('produces a minimal edit script', () => {
+    const a = 'abcabba'.split('');
+    const b = 'cbabac'.split('');
+    const ops = diffLines(a, b);
+    expect(ops.filter(op => op.type !== 'equal')).toHaveLength(5);
+    expect(ops.filter(op => op.type !== 'insert').map(op => op.line)).toEqual(a);
+    expect(ops.filter(op => op.type !== 'delete').map(op => op.line)).toEqual(b);
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('returns nothing for unchanged files', () => {
+    expect(unifiedDiff('a.ts', 'x\n', 'x\n')).toBe('');
+  });
+
+  it('writes git style headers and hunks with context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', ''].join('\n');
+    const after = ['1', '2', '3', '4', 'five', '6', '7', '8', '9', ''].join('\n');
+    expect(unifiedDiff('src/app.ts', before, after)).toBe([
+      'diff --git a/src/app.ts b/src/app.ts',
+      '--- a/src/app.ts',
+      '+++ b/src/app.ts',
+      '@@ -2,7 +2,7 @@',
+      ' 2',
+      ' 3',
+      ' 4',
+      '-5',
+      '+five',
+      ' 6',
+      ' 7',
+      ' 8',
+      ''
+    ].join('\n'));
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const changed = lines.map((l, i) => i === 1 || i === 17 ? l + ' changed' : l);
+    const diff = unifiedDiff('a.ts', lines.join('\n') + '\n', changed.join('\n') + '\n');
+    expect(diff.match(/^@@ .* @@$/gm)).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+  });
+
+  it('marks a missing newline at end of file', () => {
+    expect(unifiedDiff('a.ts', 'a\nb', 'a\nc')).toContain('-b\n\\ No newline at end of file\n+c\n\\ No newline at end of file\n');
+  });
+});
+
+describe('toPatch', () => {
+  it('produces a patch git apply accepts', () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'au-rogue-patch-'));
+    try {
+      fs.mkdirSync(path.join(cwd, 'src'));
+      const files = [
+        { path: path.join(cwd, 'src', 'app.ts'), before: "import { autoinject } from 'aurelia-framework';\n\n@autoinject\nexport class App {}\n", after: 'export class App {}\n' },
+        { path: path.join(cwd, 'src', 'app.html'), before: '<template>\n  <require from="./nav"></require>\n</template>', after: '<template>\n  <import from="./nav"></import>\n</template>' }
+      ];
+      for (const f of files) fs.writeFileSync(f.path, f.before, 'utf8');
+      fs.writeFileSync(path.join(cwd, 'out.diff'), toPatch(files, cwd), 'utf8');
+
+      execFileSync('git', ['apply', 'out.diff'], { cwd, stdio: 'pipe' });
+
+      for (const f of files) expect(fs.readFileSync(f.path, 'utf8')).toBe(f.after);
+    } finally {
+      fs.rmSync(cwd, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,186 @@
+import * as path from 'node:path';
+import { FileChange } from './types.js';
+
+export interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+/**
+ * Line diff (Myers). Common prefix and suffix are stripped first, codemod edits are usually
+ * a handful of lines in a large file so the search space stays small.
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map(line => ({ type: 'equal', line }));
+  ops.push(...myers(a.slice(start, endA), b.slice(start, endB)));
+  ops.push(...a.slice(endA).map(line => ({ type: 'equal' as const, line })));
+  return ops;
+}
+
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -d-1..d+1 before round d
+  const trace: Int32Array[] = [];
+
+  search:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const saved = trace[d];
+    const at = (k: number) => saved[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ type: 'insert', line: b[y - 1] });
+      else ops.push({ type: 'delete', line: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
+
+/**
+ * Unified diff of one file, `a/` and `b/` prefixed so `git apply` accepts it.
+ * Returns an empty string when the contents are equal.
+ */
+export function unifiedDiff(file: string, before: string, after: string, context = 3): string {
+  if (before === after) return '';
+  const ops = diffLines(splitKeepingEol(before), splitKeepingEol(after));
+
+  const aPos: number[] = [];
+  const bPos: number[] = [];
+  let a = 0;
+  let b = 0;
+  for (const op of ops) {
+    aPos.push(a);
+    bPos.push(b);
+    if (op.type !== 'insert') a++;
+    if (op.type !== 'delete') b++;
+  }
+  aPos.push(a);
+  bPos.push(b);
+
+  const changes = ops.map((op, i) => op.type === 'equal' ? -1 : i).filter(i => i >= 0);
+  const groups: [number, number][] = [];
+  for (const c of changes) {
+    const last = groups[groups.length - 1];
+    if (last && c - context <= last[1]) {
+      last[1] = Math.min(ops.length, c + 1 + context);
+    } else {
+      groups.push([Math.max(0, c - context), Math.min(ops.length, c + 1 + context)]);
+    }
+  }
+
+  const out = [`diff --git a/${file} b/${file}`, `--- a/${file}`, `+++ b/${file}`];
+  for (const [start, end] of groups) {
+    const oldCount = aPos[end] - aPos[start];
+    const newCount = bPos[end] - bPos[start];
+    out.push(`@@ -${range(aPos[start], oldCount)} +${range(bPos[start], newCount)} @@`);
+    for (let i = start; i < end; i++) {
+      const prefix = ops[i].type === 'equal' ? ' ' : ops[i].type === 'delete' ? '-' : '+';
+      const line = ops[i].line;
+      if (line.endsWith('\n')) {
+        out.push(prefix + line.slice(0, -1));
+      } else {
+        out.push(prefix + line, '\\ No newline at end of file');
+      }
+    }
+  }
+  return out.join('\n') + '\n';
+}
+
+export interface TextReplacement {
+  /** Offset into the original text. */
+  offset: number;
+  /** Number of original characters replaced. */
+  length: number;
+  text: string;
+}
+
+/**
+ * Whole-line replacements that turn `before` into `after`, one per run of changed lines.
+ * Offsets refer to `before`, so apply them from the last to the first.
+ */
+export function lineReplacements(before: string, after: string): TextReplacement[] {
+  const replacements: TextReplacement[] = [];
+  let offset = 0;
+  let current: TextReplacement | undefined;
+  for (const op of diffLines(splitKeepingEol(before), splitKeepingEol(after))) {
+    if (op.type === 'equal') {
+      current = undefined;
+      offset += op.line.length;
+      continue;
+    }
+    if (!current) {
+      current = { offset, length: 0, text: '' };
+      replacements.push(current);
+    }
+    if (op.type === 'delete') {
+      current.length += op.line.length;
+      offset += op.line.length;
+    } else {
+      current.text += op.line;
+    }
+  }
+  return replacements;
+}
+
+/**
+ * Concatenated unified diff of every changed file, paths relative to cwd.
+ */
+export function toPatch(files: FileChange[], cwd: string): string {
+  return files
+    .map(f => unifiedDiff(path.relative(cwd, f.path).split(path.sep).join('/'), f.before, f.after))
+    .join('');
+}
+
+/**
+ * Lines keep their '\n' so a missing newline at the end of a file shows up as a change.
+ */
+function splitKeepingEol(text: string): string[] {
+  if (text === '') return [];
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function range(start: number, count: number) {
+  // Hunk ranges are 1-based; an empty range points at the line before it
+  return `${count === 0 ? start : start + 1},${count}`;
+}
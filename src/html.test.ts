@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'node:path';
+import { toHtml } from './html';
+import { ReportData } from './types';
+
+const cwd = path.resolve('/project');
+
+const data: ReportData = {
+  startedAt: '2023-01-01T10:00:00Z',
+  finishedAt: '2023-01-01T10:05:00Z',
+  options: {},
+  entries: [
+    { file: path.join(cwd, 'src/app.ts'), kind: 'edit', message: 'Removed @autoinject', pass: 'di', loc: { line: 3, col: 1 } },
+    { file: path.join(cwd, 'src/app.html'), kind: 'warn', message: 'Use <form submit.trigger:prevent>', pass: 'templates', rule: 'templates/prevent-default' },
+    { file: 'PROJECT', kind: 'note', message: 'Compat mode requested.' }
+  ]
+};
+
+describe('toHtml', () => {
+  it('is a single file without external assets', () => {
+    const html = toHtml(data, cwd);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<style>');
+    expect(html).toContain('<script>');
+    expect(html).not.toMatch(/<(link|script)[^>]+(href|src)=/);
+  });
+
+  it('groups entries by file and by pass', () => {
+    const html = toHtml(data, cwd);
+    const byFile = html.slice(html.indexOf('id="by-file"'), html.indexOf('id="by-pass"'));
+    const byPass = html.slice(html.indexOf('id="by-pass"'), html.indexOf('<h2>Changed files'));
+    expect(byFile).toContain('<summary>src/app.ts <span class="count">1</span></summary>');
+    expect(byFile).toContain('<summary>PROJECT <span class="count">1</span></summary>');
+    expect(byPass).toContain('<summary>templates <span class="count">1</span></summary>');
+    expect(byPass).toContain('<summary>project <span class="count">1</span></summary>');
+  });
+
+  it('exposes kind and searchable text for filtering', () => {
+    const html = toHtml(data, cwd);
+    for (const kind of ['edit', 'warn', 'note']) {
+      expect(html).toContain(`class="kind-filter" value="${kind}"`);
+    }
+    expect(html).toContain('id="search"');
+    expect(html).toContain('data-kind="warn" data-search="use &lt;form submit.trigger:prevent&gt; templates/prevent-default"');
+    expect(html).toContain('src/app.ts:3:1');
+  });
+
+  it('escapes messages', () => {
+    const html = toHtml(data, cwd);
+    expect(html).toContain('<div class="message">Use &lt;form submit.trigger:prevent&gt;</div>');
+    expect(html).not.toContain('<form submit.trigger:prevent>');
+  });
+
+  it('renders side-by-side diffs of changed files', () => {
+    const html = toHtml(data, cwd, [{
+      path: path.join(cwd, 'src/app.html'),
+      before: '<template>\n  <a click.delegate="go()">Go</a>\n</template>',
+      after: '<template>\n  <a click.trigger="go()">Go</a>\n</template>'
+    }]);
+    expect(html).toContain('<summary>src/app.html</summary>');
+    expect(html).toContain('<td class="ln">2</td><td class="del">  &lt;a click.delegate=&quot;go()&quot;&gt;Go&lt;/a&gt;</td><td class="ln">2</td><td class="ins">  &lt;a click.trigger=&quot;go()&quot;&gt;Go&lt;/a&gt;</td>');
+    expect(html).toContain('<td class="ln">3</td><td class="same">&lt;/template&gt;</td>');
+  });
+
+  it('says when no files changed', () => {
+    expect(toHtml(data, cwd)).toContain('No files changed.');
+  });
+});
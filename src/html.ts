@@ -0,0 +1,190 @@
+import * as path from 'node:path';
+import { ChangeEntry, ChangeKind, FileChange, ReportData } from './types.js';
+import { diffLines } from './diff.js';
+
+const kinds: ChangeKind[] = ['edit', 'add', 'remove', 'warn', 'note'];
+
+/**
+ * Single-file HTML report. Styles and the filter script are inlined so the file can be
+ * mailed around or opened from disk without a server.
+ */
+export function toHtml(data: ReportData, cwd: string, files: FileChange[] = []): string {
+  const counts = Object.fromEntries(kinds.map(k => [k, data.entries.filter(e => e.kind === k).length]));
+  const byFile = groupBy(data.entries, e => displayPath(e.file, cwd));
+  const byPass = groupBy(data.entries, e => e.pass ?? 'project');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>au-rogue migration report</title>
+<style>${styles}</style>
+</head>
+<body>
+<h1>au-rogue migration report</h1>
+<p class="meta">Started: ${escapeHtml(data.startedAt)}${data.finishedAt ? ` &middot; Finished: ${escapeHtml(data.finishedAt)}` : ''}</p>
+<p class="summary">${kinds.map(k => `<span class="kind kind-${k}">${k}</span> ${counts[k]}`).join(' ')}</p>
+<form class="controls" onsubmit="return false">
+  <label>Group by <select id="group"><option value="file">file</option><option value="pass">pass</option></select></label>
+  ${kinds.map(k => `<label><input type="checkbox" class="kind-filter" value="${k}" checked> ${k}</label>`).join('\n  ')}
+  <input type="search" id="search" placeholder="Search messages">
+</form>
+<section id="by-file" class="grouping">
+${renderGroups(byFile, cwd)}
+</section>
+<section id="by-pass" class="grouping" hidden>
+${renderGroups(byPass, cwd)}
+</section>
+<h2>Changed files</h2>
+${files.length === 0 ? '<p class="empty">No files changed.</p>' : files.map(f => renderDiff(f, cwd)).join('\n')}
+<script>${script}</script>
+</body>
+</html>
+`;
+}
+
+function renderGroups(groups: Map<string, ChangeEntry[]>, cwd: string): string {
+  if (groups.size === 0) return '<p class="empty">No entries.</p>';
+  return Array.from(groups, ([name, entries]) => `<details class="group" open>
+<summary>${escapeHtml(name)} <span class="count">${entries.length}</span></summary>
+<ul>
+${entries.map(e => renderEntry(e, cwd)).join('\n')}
+</ul>
+</details>`).join('\n');
+}
+
+function renderEntry(e: ChangeEntry, cwd: string): string {
+  const where = e.loc?.line ? `${displayPath(e.file, cwd)}:${e.loc.line}${e.loc.col ? ':' + e.loc.col : ''}` : displayPath(e.file, cwd);
+  const details = [
+    e.before ? `<pre class="before">${escapeHtml(e.before)}</pre>` : '',
+    e.after ? `<pre class="after">${escapeHtml(e.after)}</pre>` : ''
+  ].join('');
+  return `<li class="entry" data-kind="${e.kind}" data-search="${escapeHtml(`${e.message} ${e.rule ?? ''}`.toLowerCase())}">
+<span class="kind kind-${e.kind}">${e.kind}</span> <span class="where">${escapeHtml(where)}</span>${e.pass ? ` <span class="pass">${escapeHtml(e.pass)}</span>` : ''}${e.rule ? ` <code class="rule">${escapeHtml(e.rule)}</code>` : ''}
+<div class="message">${escapeHtml(e.message)}</div>${details}
+</li>`;
+}
+
+/**
+ * Side-by-side table: deletions on the left, insertions on the right, paired row by row.
+ */
+function renderDiff(file: FileChange, cwd: string): string {
+  const rows: string[] = [];
+  const ops = diffLines(file.before.split('\n'), file.after.split('\n'));
+  let left = 0;
+  let right = 0;
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === 'equal') {
+      left++;
+      right++;
+      rows.push(row(left, ops[i].line, 'same', right, ops[i].line, 'same'));
+      i++;
+      continue;
+    }
+    const deleted: string[] = [];
+    const inserted: string[] = [];
+    while (i < ops.length && ops[i].type !== 'equal') {
+      (ops[i].type === 'delete' ? deleted : inserted).push(ops[i].line);
+      i++;
+    }
+    for (let j = 0; j < Math.max(deleted.length, inserted.length); j++) {
+      const hasLeft = j < deleted.length;
+      const hasRight = j < inserted.length;
+      rows.push(row(
+        hasLeft ? ++left : undefined, deleted[j], hasLeft ? 'del' : 'none',
+        hasRight ? ++right : undefined, inserted[j], hasRight ? 'ins' : 'none'
+      ));
+    }
+  }
+
+  return `<details class="diff">
+<summary>${escapeHtml(displayPath(file.path, cwd))}</summary>
+<table>
+${rows.join('\n')}
+</table>
+</details>`;
+}
+
+function row(leftNo: number | undefined, leftText: string | undefined, leftClass: string,
+             rightNo: number | undefined, rightText: string | undefined, rightClass: string): string {
+  return `<tr><td class="ln">${leftNo ?? ''}</td><td class="${leftClass}">${escapeHtml(leftText ?? '')}</td>`
+    + `<td class="ln">${rightNo ?? ''}</td><td class="${rightClass}">${escapeHtml(rightText ?? '')}</td></tr>`;
+}
+
+function groupBy(entries: ChangeEntry[], key: (e: ChangeEntry) => string): Map<string, ChangeEntry[]> {
+  const groups = new Map<string, ChangeEntry[]>();
+  for (const e of entries) {
+    const k = key(e);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(e);
+  }
+  return groups;
+}
+
+function displayPath(file: string, cwd: string): string {
+  if (!path.isAbsolute(file)) return file;
+  const rel = path.relative(cwd, file);
+  return rel.startsWith('..') ? file : rel.split(path.sep).join('/');
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const styles = `
+body { font: 14px/1.4 system-ui, sans-serif; margin: 2rem; color: #222; }
+.meta, .empty { color: #666; }
+.controls { display: flex; flex-wrap: wrap; gap: 1rem; align-items: center; margin: 1rem 0; position: sticky; top: 0; background: #fff; padding: .5rem 0; }
+.controls input[type=search] { flex: 1; min-width: 12rem; padding: .25rem .5rem; }
+.group, .diff { border: 1px solid #ddd; border-radius: 4px; margin: .5rem 0; }
+.group summary, .diff summary { cursor: pointer; padding: .4rem .6rem; background: #f6f6f6; font-weight: 600; }
+.count { color: #666; font-weight: normal; }
+.group ul { list-style: none; margin: 0; padding: 0; }
+.entry { padding: .4rem .6rem; border-top: 1px solid #eee; }
+.kind { display: inline-block; min-width: 3.5rem; text-align: center; border-radius: 3px; font-size: 12px; color: #fff; }
+.kind-edit { background: #2f6fbf; } .kind-add { background: #2e8540; } .kind-remove { background: #8a5a00; }
+.kind-warn { background: #c0392b; } .kind-note { background: #7f8c8d; }
+.where { font-family: monospace; } .pass { color: #666; font-size: 12px; } .rule { font-size: 12px; }
+.message { margin: .2rem 0; white-space: pre-wrap; }
+pre { margin: .2rem 0; padding: .3rem; overflow-x: auto; font-size: 12px; }
+pre.before { background: #fdecea; } pre.after { background: #e6f4ea; }
+.diff table { width: 100%; border-collapse: collapse; table-layout: fixed; font: 12px monospace; }
+.diff td { white-space: pre-wrap; word-break: break-all; vertical-align: top; padding: 0 .4rem; }
+.diff td.ln { width: 3rem; text-align: right; color: #999; user-select: none; }
+.diff td.del { background: #fdecea; } .diff td.ins { background: #e6f4ea; } .diff td.none { background: #f6f6f6; }
+[hidden] { display: none !important; }
+`;
+
+const script = `
+(function () {
+  var group = document.getElementById('group');
+  var search = document.getElementById('search');
+  var filters = Array.prototype.slice.call(document.querySelectorAll('.kind-filter'));
+  function update() {
+    document.getElementById('by-file').hidden = group.value !== 'file';
+    document.getElementById('by-pass').hidden = group.value !== 'pass';
+    var enabled = filters.filter(function (f) { return f.checked; }).map(function (f) { return f.value; });
+    var query = search.value.trim().toLowerCase();
+    document.querySelectorAll('.group').forEach(function (g) {
+      var visible = 0;
+      g.querySelectorAll('.entry').forEach(function (e) {
+        var show = enabled.indexOf(e.dataset.kind) !== -1 && (!query || e.dataset.search.indexOf(query) !== -1);
+        e.hidden = !show;
+        if (show) visible++;
+      });
+      g.hidden = visible === 0;
+      g.querySelector('.count').textContent = visible;
+    });
+  }
+  group.addEventListener('change', update);
+  search.addEventListener('input', update);
+  filters.forEach(function (f) { f.addEventListener('change', update); });
+})();
+`;
@@ -0,0 +1,21 @@
+export { migrate, defaultSources, defaultTemplates } from './migrate.js';
+export type { MigrateOptions, MigrateResult } from './migrate.js';
+export { evaluateCheck } from './check.js';
+export type { CheckOptions, CheckOutcome } from './check.js';
+export { writeReport } from './report.js';
+export type { ReportFormats } from './report.js';
+export { toSarif } from './sarif.js';
+export { toHtml } from './html.js';
+export { diffLines, lineReplacements, unifiedDiff, toPatch } from './diff.js';
+export type { DiffOp, TextReplacement } from './diff.js';
+export type { SarifFix, SarifLog, SarifResult } from './sarif.js';
+export { Reporter } from './types.js';
+export type { ChangeKind, ChangeEntry, EntryMeta, FileChange, ReportData, RuleSeverity } from './types.js';
+export { defineConfig, findConfigFile, loadConfig } from './config.js';
+export type { AuRogueConfig, PassSetting } from './config.js';
+export { pairViews } from './pairing.js';
+export type { ViewPair } from './pairing.js';
+export { templateUsage } from './template-usage.js';
+export type { TemplateUsage } from './template-usage.js';
+export { rules, getRule, ruleCatalogMarkdown } from './rules.js';
+export type { RuleDefinition } from './rules.js';
@@ -0,0 +1,23 @@
+import { Node, SourceFile } from 'ts-morph';
+import { SourceLocation } from './types.js';
+
+/**
+ * Location of a ts-morph node. Read it before editing, positions shift afterwards.
+ */
+export function nodeLoc(node: Node): SourceLocation {
+  return posLoc(node.getSourceFile(), node.getStart());
+}
+
+export function posLoc(sf: SourceFile, pos: number): SourceLocation {
+  const { line, column } = sf.getLineAndColumnAtPos(pos);
+  return { line, col: column };
+}
+
+/**
+ * Location of the first occurrence of `text` inside `node`, falling back to the node itself.
+ * Used by text based analyses that only know a substring matched.
+ */
+export function textLoc(node: Node, text: string): SourceLocation {
+  const idx = node.getText().indexOf(text);
+  return idx >= 0 ? posLoc(node.getSourceFile(), node.getStart() + idx) : nodeLoc(node);
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { migrate } from './migrate';
+
+describe('migrate', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'au-rogue-'));
+    fs.mkdirSync(path.join(cwd, 'src'));
+    fs.writeFileSync(path.join(cwd, 'src', 'app.ts'), `
+import { PLATFORM } from 'aurelia-pal';
+
+export const routes = [PLATFORM.moduleName('./home')];
+`, 'utf8');
+    fs.writeFileSync(path.join(cwd, 'src', 'app.html'), `<template>
+  <require from="./nav"></require>
+</template>`, 'utf8');
+    fs.writeFileSync(path.join(cwd, 'src', 'untouched.ts'), `export const value = 1;\n`, 'utf8');
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('returns the report and changed file contents', () => {
+    const result = migrate({ cwd, dry: true });
+
+    expect(result.report.finishedAt).toBeDefined();
+    expect(result.report.entries.some(e => e.message === '<require> -> <import>')).toBe(true);
+
+    const files = result.files.map(f => path.basename(f.path)).sort();
+    expect(files).toEqual(['app.html', 'app.ts']);
+
+    const ts = result.files.find(f => f.path.endsWith('app.ts'))!;
+    expect(ts.before).toContain("PLATFORM.moduleName('./home')");
+    expect(ts.after).toContain("export const routes = ['./home'];");
+
+    const html = result.files.find(f => f.path.endsWith('app.html'))!;
+    expect(html.after).toContain('<import from="./nav"></import>');
+  });
+
+  it('records the pass that reported each entry', () => {
+    const result = migrate({ cwd, dry: true, compat: true });
+
+    expect(result.report.entries.find(e => e.message === '<require> -> <import>')!.pass).toBe('templates');
+    expect(result.report.entries.filter(e => e.file.endsWith('app.ts')).every(e => e.pass === 'platform')).toBe(true);
+    expect(result.report.entries.find(e => e.file === 'PROJECT')!.pass).toBeUndefined();
+  });
+
+  it('does not write files in dry mode', () => {
+    migrate({ cwd, dry: true });
+
+    expect(fs.readFileSync(path.join(cwd, 'src', 'app.ts'), 'utf8')).toContain('PLATFORM.moduleName');
+    expect(fs.readFileSync(path.join(cwd, 'src', 'app.html'), 'utf8')).toContain('<require');
+  });
+
+  it('writes changed files when not dry', () => {
+    migrate({ cwd });
+
+    expect(fs.readFileSync(path.join(cwd, 'src', 'app.ts'), 'utf8')).not.toContain('PLATFORM.moduleName');
+    expect(fs.readFileSync(path.join(cwd, 'src', 'app.html'), 'utf8')).toContain('<import from="./nav"></import>');
+  });
+
+  it('honors custom globs', () => {
+    const result = migrate({ cwd, dry: true, sources: ['src/untouched.ts'], templates: [] });
+
+    expect(result.files).toEqual([]);
+  });
+
+  it('does not add DI tokens to files outside the matched sources', () => {
+    fs.mkdirSync(path.join(cwd, 'src', 'services'));
+    const store = `export interface Store {\n  load(): void;\n}\n`;
+    fs.writeFileSync(path.join(cwd, 'src', 'services', 'store.ts'), store, 'utf8');
+    fs.writeFileSync(path.join(cwd, 'src', 'a.ts'), `
+import { autoinject } from 'aurelia-framework';
+import { Store } from './services/store';
+
+@autoinject
+export class A {
+  constructor(private store: Store) {}
+}
+`, 'utf8');
+
+    const result = migrate({ cwd, sources: ['src/a.ts'], templates: [] });
+
+    expect(fs.readFileSync(path.join(cwd, 'src', 'services', 'store.ts'), 'utf8')).toBe(store);
+    expect(result.files.map(f => path.basename(f.path))).toEqual(['a.ts']);
+    expect(result.files[0].after).not.toContain('StoreToken');
+    expect(result.report.entries.find(e => e.rule === 'di/non-runtime-type')!.message).toContain('not one of the migrated sources');
+  });
+
+  it('runs only the selected passes', () => {
+    const result = migrate({ cwd, dry: true, only: ['templates'] });
+
+    expect(result.files.map(f => path.basename(f.path))).toEqual(['app.html']);
+    expect(result.report.entries.some(e => e.message.includes('PLATFORM'))).toBe(false);
+  });
+
+  it('skips passes by ID', () => {
+    const result = migrate({ cwd, dry: true, skip: ['templates'] });
+
+    expect(result.files.map(f => path.basename(f.path))).toEqual(['app.ts']);
+  });
+
+  it('disables passes set to false in the config unless listed in only', () => {
+    expect(migrate({ cwd, dry: true, passes: { templates: false } }).files.map(f => path.basename(f.path))).toEqual(['app.ts']);
+    expect(migrate({ cwd, dry: true, passes: { templates: false }, only: ['templates'] }).files.map(f => path.basename(f.path))).toEqual(['app.html']);
+  });
+
+  it('passes object settings to the pass as options', () => {
+    fs.writeFileSync(path.join(cwd, 'src', 'form.html'), `<form submit.delegate="save()"></form>`, 'utf8');
+
+    const plain = migrate({ cwd, dry: true, templates: ['src/form.html'] });
+    expect(plain.files.find(f => f.path.endsWith('form.html'))!.after).toBe(`<form submit.trigger="save()"></form>`);
+
+    const applied = migrate({ cwd, dry: true, templates: ['src/form.html'], passes: { templates: { applyPrevent: true } } });
+    expect(applied.files.find(f => f.path.endsWith('form.html'))!.after).toBe(`<form submit.trigger:prevent="save()"></form>`);
+  });
+
+  it('rejects unknown pass IDs in the config', () => {
+    expect(() => migrate({ cwd, dry: true, passes: { nope: true } })).toThrow(/Unknown pass 'nope'/);
+  });
+
+  describe('tsconfig', () => {
+    beforeEach(() => {
+      fs.mkdirSync(path.join(cwd, 'src', 'services'));
+      fs.writeFileSync(path.join(cwd, 'src', 'services', 'http.ts'), `export class HttpClient {}\n`, 'utf8');
+      fs.writeFileSync(path.join(cwd, 'src', 'consumer.ts'), `
+import { autoinject } from 'aurelia-framework';
+import { HttpClient } from '@services/http';
+
+@autoinject
+export class Consumer {
+  constructor(private http: HttpClient) {}
+}
+`, 'utf8');
+      fs.writeFileSync(path.join(cwd, 'tsconfig.json'), JSON.stringify({
+        compilerOptions: {
+          baseUrl: '.',
+          paths: { '@services/*': ['src/services/*'] },
+          experimentalDecorators: true
+        }
+      }), 'utf8');
+    });
+
+    it('auto-detects tsconfig.json so path aliases resolve', () => {
+      const result = migrate({ cwd, dry: true, only: ['di'] });
+
+      const consumer = result.files.find(f => f.path.endsWith('consumer.ts'))!;
+      expect(consumer.after).toContain('http: HttpClient = resolve(HttpClient)');
+      expect(result.report.options.tsconfig).toBe(path.join(cwd, 'tsconfig.json'));
+    });
+
+    it('falls back to built-in compiler options when disabled', () => {
+      const result = migrate({ cwd, dry: true, only: ['di'], tsconfig: false });
+
+      const consumer = result.files.find(f => f.path.endsWith('consumer.ts'))!;
+      expect(consumer.after).not.toContain('resolve(HttpClient)');
+      expect(result.report.entries.some(e => e.kind === 'warn' && e.message.includes("'http: HttpClient'"))).toBe(true);
+    });
+
+    it('uses an explicit tsconfig path', () => {
+      fs.renameSync(path.join(cwd, 'tsconfig.json'), path.join(cwd, 'tsconfig.app.json'));
+
+      const result = migrate({ cwd, dry: true, only: ['di'], tsconfig: 'tsconfig.app.json' });
+
+      expect(result.files.find(f => f.path.endsWith('consumer.ts'))!.after).toContain('resolve(HttpClient)');
+    });
+
+    it('throws when an explicit tsconfig is missing', () => {
+      expect(() => migrate({ cwd, dry: true, tsconfig: 'missing.json' })).toThrow(/tsconfig not found/);
+    });
+
+    it('only processes matched sources, not every file in the tsconfig', () => {
+      const result = migrate({ cwd, dry: true, sources: ['src/app.ts'] });
+
+      expect(result.files.some(f => f.path.endsWith('consumer.ts'))).toBe(false);
+    });
+  });
+});
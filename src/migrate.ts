@@ -0,0 +1,141 @@
+import fg from 'fast-glob';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Project } from 'ts-morph';
+import * as ts from 'typescript';
+import { FileChange, ReportData, Reporter, RuleSeverity } from './types.js';
+import { PassSetting } from './config.js';
+import { selectPasses, assertKnownPasses, PassContext } from './passes/index.js';
+import { pairViews } from './pairing.js';
+
+export interface MigrateOptions {
+  /** Directory globs are resolved against. Defaults to process.cwd(). */
+  cwd?: string;
+  /** Globs for ts/js sources. */
+  sources?: string[];
+  /** Globs for html/au templates. */
+  templates?: string[];
+  /**
+   * tsconfig.json used for type resolution. Defaults to tsconfig.json in cwd when present,
+   * `false` forces the built-in compiler options.
+   */
+  tsconfig?: string | false;
+  /** When true, nothing is written to disk. Changed contents are still returned. */
+  dry?: boolean;
+  /** Compat assist mode, only notes for now. */
+  compat?: boolean;
+  /** Run only these pass IDs. */
+  only?: string[];
+  /** Skip these pass IDs. */
+  skip?: string[];
+  /** Per-pass settings from the config file. `false` disables a pass unless it is listed in `only`. */
+  passes?: Record<string, PassSetting>;
+  /** Severity overrides keyed by rule ID. */
+  rules?: Record<string, RuleSeverity>;
+}
+
+export interface MigrateResult {
+  report: ReportData;
+  /** Every source and template file whose contents the passes changed. */
+  files: FileChange[];
+}
+
+export const defaultSources = ['src/**/*.{ts,tsx,js,jsx}'];
+export const defaultTemplates = ['src/**/*.{html,au}'];
+
+function unique(arr: string[]) { return Array.from(new Set(arr)); }
+
+export function resolveTsConfig(cwd: string, tsconfig: string | false | undefined): string | undefined {
+  if (tsconfig === false) return undefined;
+  if (tsconfig) {
+    const file = path.resolve(cwd, tsconfig);
+    if (!fs.existsSync(file)) {
+      throw new Error(`tsconfig not found: ${file}`);
+    }
+    return file;
+  }
+  const detected = path.join(cwd, 'tsconfig.json');
+  return fs.existsSync(detected) ? detected : undefined;
+}
+
+/**
+ * Use the app's own compiler options when there is a tsconfig so path aliases, baseUrl and
+ * lib settings resolve types the same way the app does. Only the matched sources are added,
+ * allowJs is forced on so JS sources are part of the program.
+ */
+function createProject(tsConfigFilePath: string | undefined) {
+  if (tsConfigFilePath) {
+    return new Project({
+      tsConfigFilePath,
+      skipAddingFilesFromTsConfig: true,
+      compilerOptions: { allowJs: true }
+    });
+  }
+  return new Project({
+    compilerOptions: {
+      allowJs: true,
+      target: ts.ScriptTarget.ES2020 as any,
+      module: ts.ModuleKind.ESNext as any,
+      esModuleInterop: true,
+      skipLibCheck: true
+    }
+  });
+}
+
+/**
+ * Run the selected passes over the matched sources and templates.
+ * Reports are not written here, callers decide what to do with the result.
+ */
+export function migrate(options: MigrateOptions = {}): MigrateResult {
+  const cwd = options.cwd ?? process.cwd();
+  const sources = options.sources ?? defaultSources;
+  const templates = options.templates ?? defaultTemplates;
+  const dry = options.dry ?? false;
+  const settings = options.passes ?? {};
+  assertKnownPasses(Object.keys(settings));
+  const disabled = Object.keys(settings).filter(id => settings[id] === false && !options.only?.includes(id));
+  const selected = selectPasses(options.only, [...(options.skip ?? []), ...disabled]);
+  const passOptions: Record<string, Record<string, unknown>> = {};
+  for (const [id, setting] of Object.entries(settings)) {
+    if (typeof setting === 'object') passOptions[id] = setting;
+  }
+  const tsConfigFilePath = resolveTsConfig(cwd, options.tsconfig);
+  const reporter = new Reporter({ ...options, cwd, sources, templates, dry, tsconfig: tsConfigFilePath ?? false }, options.rules);
+
+  const sourcePaths = unique(fg.sync(sources, { cwd, absolute: true, ignore: ['**/node_modules/**', '**/dist/**'] }));
+  const templatePaths = unique(fg.sync(templates, { cwd, absolute: true, ignore: ['**/node_modules/**', '**/dist/**'] }));
+
+  const project = createProject(tsConfigFilePath);
+
+  project.addSourceFilesAtPaths(sourcePaths);
+
+  const originals = new Map<string, string>();
+  for (const sf of project.getSourceFiles()) {
+    originals.set(sf.getFilePath(), sf.getFullText());
+  }
+
+  const files: FileChange[] = [];
+  const pairs = pairViews(project, templatePaths);
+  const ctx: PassContext = { project, sourcePaths: new Set(originals.keys()), templatePaths, pairs, reporter, write: !dry, files, passOptions };
+  for (const pass of selected) {
+    reporter.pass = pass.id;
+    pass.run(ctx);
+  }
+  reporter.pass = undefined;
+
+  for (const [path, before] of originals) {
+    const sf = project.getSourceFile(path);
+    const after = sf ? sf.getFullText() : before;
+    if (after !== before) files.push({ path, before, after });
+  }
+
+  if (!dry) {
+    project.saveSync();
+  }
+
+  if (options.compat) {
+    reporter.note('PROJECT', 'Compat mode requested. Register @aurelia/compat-v1 during migration, then remove it when done.', { rule: 'project/compat-mode' });
+  }
+
+  return { report: reporter.finish(), files };
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Project } from 'ts-morph';
+import { pairViews } from './pairing';
+
+describe('pairViews', () => {
+  let project: Project;
+
+  beforeEach(() => {
+    project = new Project({
+      compilerOptions: { strict: false, allowJs: true },
+      useInMemoryFileSystem: true
+    });
+  });
+
+  it('pairs a template with the class in the file of the same name', () => {
+    project.createSourceFile('/app/src/user-list.ts', `
+import { bindable } from 'aurelia-framework';
+
+export class Helper {}
+
+export class UserList {
+  @bindable users = [];
+  filter = '';
+  constructor(private api: Api) {}
+  get count() { return this.users.length; }
+  select(user) {}
+}
+`);
+
+    const [pair] = pairViews(project, ['/app/src/user-list.html']);
+
+    expect(pair).toEqual({
+      template: '/app/src/user-list.html',
+      source: '/app/src/user-list.ts',
+      className: 'UserList',
+      via: 'convention',
+      bindables: ['users'],
+      members: ['users', 'filter', 'api', 'count', 'select'],
+      complete: true,
+      usage: []
+    });
+  });
+
+  it('prefers the class whose @customElement name matches the file', () => {
+    project.createSourceFile('/app/src/nav-bar.ts', `
+export class Item {}
+
+@customElement('nav-bar')
+export class Navigation {}
+`);
+
+    const [pair] = pairViews(project, ['/app/src/nav-bar.html']);
+
+    expect(pair.className).toBe('Navigation');
+  });
+
+  it('follows @useView, relative or from the base URL', () => {
+    project.createSourceFile('/app/src/pages/home.ts', `
+@useView(PLATFORM.moduleName('./shared-layout.html'))
+export class Home {}
+`);
+    project.createSourceFile('/app/src/pages/about.ts', `
+@useView('views/about-page.html')
+export class About {}
+`);
+
+    const pairs = pairViews(project, [
+      '/app/src/pages/home.html',
+      '/app/src/pages/shared-layout.html',
+      '/app/src/views/about-page.html'
+    ]);
+
+    expect(pairs.map(p => [p.className, p.template, p.via])).toEqual([
+      ['Home', '/app/src/pages/shared-layout.html', 'useView'],
+      ['About', '/app/src/views/about-page.html', 'useView']
+    ]);
+  });
+
+  it('follows a template imported into @customElement', () => {
+    project.createSourceFile('/app/src/card.ts', `
+import template from './card-view.html';
+
+@customElement({ name: 'card', template })
+export class Card {}
+`);
+
+    const [pair] = pairViews(project, ['/app/src/card-view.html', '/app/src/card.html']);
+
+    expect(pair).toMatchObject({ template: '/app/src/card-view.html', className: 'Card', via: 'customElement' });
+  });
+
+  it('skips classes with inline or no views', () => {
+    project.createSourceFile('/app/src/a.ts', `
+@noView()
+export class A {}
+`);
+    project.createSourceFile('/app/src/b.ts', `
+@customElement({ name: 'b', template: '<div></div>' })
+export class B {}
+`);
+
+    expect(pairViews(project, ['/app/src/a.html', '/app/src/b.html'])).toEqual([]);
+  });
+
+  it('collects inherited members, class-level bindables and JS field assignments', () => {
+    project.createSourceFile('/app/src/base.js', `
+export class Base {
+  constructor() {
+    this.loading = false;
+  }
+  refresh() {}
+}
+`);
+    project.createSourceFile('/app/src/orders.js', `
+import { Base } from './base';
+
+@bindable('status')
+@bindable({ name: 'limit', defaultValue: 10 })
+export class Orders extends Base {
+  activate() {
+    this.orders = [];
+  }
+}
+`);
+
+    const [pair] = pairViews(project, ['/app/src/orders.html']);
+
+    expect(pair.bindables).toEqual(['status', 'limit']);
+    expect(pair.members).toEqual(expect.arrayContaining(['status', 'limit', 'activate', 'orders', 'loading', 'refresh']));
+    expect(pair.complete).toBe(true);
+  });
+
+  it('lists the names the template looks up on the view model when first asked', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'au-rogue-'));
+    try {
+      const template = path.join(dir, 'todo-list.html');
+      project.createSourceFile(path.join(dir, 'todo-list.ts'), `
+export class TodoList {
+  items = [];
+}
+`);
+
+      const [pair] = pairViews(project, [template]);
+      fs.writeFileSync(template, `<template>
+  <let total.bind="items.length"></let>
+  <li repeat.for="item of items" click.trigger="select(item)">\${item.title | upper} of \${total}</li>
+</template>`, 'utf8');
+
+      expect(pair.usage).toBe(pair.usage);
+      expect(pair.usage).toEqual([
+        { name: 'items', label: 'total.bind="items.length"', loc: { line: 2, col: 8 } },
+        { name: 'items', label: 'repeat.for="item of items"', loc: { line: 3, col: 7 } },
+        { name: 'select', label: 'click.trigger="select(item)"', loc: { line: 3, col: 34 } }
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('marks members incomplete when a base class cannot be resolved', () => {
+    project.createSourceFile('/app/src/page.ts', `
+import { BasePage } from 'some-package';
+
+export class Page extends BasePage {}
+`);
+
+    const [pair] = pairViews(project, ['/app/src/page.html']);
+
+    expect(pair.complete).toBe(false);
+  });
+});
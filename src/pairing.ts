@@ -0,0 +1,231 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { ClassDeclaration, Decorator, Node, Project, SourceFile, SyntaxKind } from 'ts-morph';
+import { TemplateUsage, templateUsage } from './template-usage.js';
+
+/**
+ * A template and the view-model class that renders it.
+ */
+export interface ViewPair {
+  /** Template path as it was passed in. */
+  template: string;
+  /** Path of the source file declaring the class. */
+  source: string;
+  className: string;
+  /**
+   * What linked the two: a source file with the template's base name, `@useView`, or a
+   * `@customElement({ template })` whose template is imported from the HTML file.
+   */
+  via: 'convention' | 'useView' | 'customElement';
+  /** Properties declared with @bindable, on the class or its properties. */
+  bindables: string[];
+  /**
+   * Every instance member the template can bind to: properties, accessors, methods,
+   * constructor parameter properties, `this.x = ...` assignments, bindables and inherited
+   * members.
+   */
+  members: string[];
+  /** False when a base class could not be resolved, so `members` may be missing some. */
+  complete: boolean;
+  /**
+   * Names the template looks up on the view model, so TS passes can tell which members a
+   * template uses. Read from disk on first access and kept; empty when the file is missing.
+   */
+  readonly usage: TemplateUsage[];
+}
+
+type ClassMembers = Pick<ViewPair, 'bindables' | 'members' | 'complete'>;
+
+const sourceExtensions = ['.ts', '.js', '.tsx', '.jsx'];
+
+/**
+ * Decorators that give a class an explicit view or no view, so the conventional template
+ * next to it does not belong to it.
+ */
+const viewDecorators = new Set(['useView', 'inlineView', 'noView']);
+
+/**
+ * Pair templates with view-model classes the way the v1 loader would find them. Explicit
+ * metadata wins over convention, and each template and class is paired at most once.
+ * Only templates in `templatePaths` are considered, pairs come back in that order.
+ */
+export function pairViews(project: Project, templatePaths: string[]): ViewPair[] {
+  const templates = new Map(templatePaths.map(t => [path.resolve(t), t]));
+  const pairs = new Map<string, ViewPair>();
+  const paired = new Set<ClassDeclaration>();
+
+  for (const sf of project.getSourceFiles()) {
+    for (const cls of sf.getClasses()) {
+      const explicit = explicitTemplate(cls, templates);
+      if (explicit && !pairs.has(explicit.template)) {
+        pairs.set(explicit.template, describe(cls, explicit.template, explicit.via));
+        paired.add(cls);
+      }
+    }
+  }
+
+  for (const [resolved, template] of templates) {
+    if (pairs.has(template)) continue;
+    const base = resolved.slice(0, resolved.length - path.extname(resolved).length);
+    const sf = sourceExtensions.map(ext => project.getSourceFile(base + ext)).find(Boolean);
+    const cls = sf && conventionalClass(sf, path.basename(base), paired);
+    if (cls) {
+      pairs.set(template, describe(cls, template, 'convention'));
+      paired.add(cls);
+    }
+  }
+
+  return templatePaths.filter(t => pairs.has(t)).map(t => pairs.get(t)!);
+}
+
+/**
+ * Members of a paired class as the project has them now, for passes that run after other
+ * passes renamed or moved members. Undefined when the class is gone.
+ */
+export function viewModelMembers(project: Project, pair: ViewPair): ClassMembers | undefined {
+  const cls = project.getSourceFile(pair.source)?.getClass(pair.className);
+  return cls ? classMembers(cls) : undefined;
+}
+
+function describe(cls: ClassDeclaration, template: string, via: ViewPair['via']): ViewPair {
+  let usage: TemplateUsage[] | undefined;
+  return {
+    template,
+    source: cls.getSourceFile().getFilePath(),
+    className: cls.getName() ?? '(anonymous)',
+    via,
+    ...classMembers(cls),
+    // Most runs never look at it, so templates are only parsed when a pass asks
+    get usage() {
+      if (!usage) usage = fs.existsSync(template) ? templateUsage(fs.readFileSync(template, 'utf8')) : [];
+      return usage;
+    }
+  };
+}
+
+function decoratorsNamed(cls: ClassDeclaration, name: string): Decorator[] {
+  return cls.getDecorators().filter(d => d.getName() === name);
+}
+
+/**
+ * Template named by `@useView('./x.html')` (optionally wrapped in PLATFORM.moduleName) or
+ * by `@customElement({ template })` with `template` imported from an HTML file.
+ */
+function explicitTemplate(cls: ClassDeclaration, templates: Map<string, string>): { template: string; via: ViewPair['via'] } | undefined {
+  const sf = cls.getSourceFile();
+  for (const deco of decoratorsNamed(cls, 'useView')) {
+    const id = stringArgument(deco.getArguments()[0]);
+    const template = id !== undefined ? resolveTemplate(sf, id, templates) : undefined;
+    if (template) return { template, via: 'useView' };
+  }
+  for (const deco of decoratorsNamed(cls, 'customElement')) {
+    const options = deco.getArguments()[0];
+    if (!Node.isObjectLiteralExpression(options)) continue;
+    const property = options.getProperty('template');
+    const local = Node.isShorthandPropertyAssignment(property)
+      ? property.getName()
+      : Node.isPropertyAssignment(property) && Node.isIdentifier(property.getInitializer())
+        ? property.getInitializer()!.getText()
+        : undefined;
+    const id = local && sf.getImportDeclarations().find(i => i.getDefaultImport()?.getText() === local)?.getModuleSpecifierValue();
+    const template = id ? resolveTemplate(sf, id, templates) : undefined;
+    if (template) return { template, via: 'customElement' };
+  }
+  return undefined;
+}
+
+function stringArgument(arg: Node | undefined): string | undefined {
+  if (arg && Node.isCallExpression(arg) && arg.getExpression().getText().endsWith('moduleName')) {
+    return stringArgument(arg.getArguments()[0]);
+  }
+  return arg && Node.isStringLiteral(arg) ? arg.getLiteralValue() : undefined;
+}
+
+/**
+ * Relative IDs resolve against the source file. Other IDs were resolved from the loader's
+ * base URL in v1, so they match any known template whose path ends with the ID.
+ */
+function resolveTemplate(sf: SourceFile, id: string, templates: Map<string, string>): string | undefined {
+  const ids = path.extname(id) ? [id] : [`${id}.html`];
+  for (const candidate of ids) {
+    if (candidate.startsWith('./') || candidate.startsWith('../')) {
+      const found = templates.get(path.resolve(path.dirname(sf.getFilePath()), candidate));
+      if (found) return found;
+    } else {
+      const suffix = '/' + candidate.replace(/^\/+/, '');
+      for (const [resolved, template] of templates) {
+        if (resolved.split(path.sep).join('/').endsWith(suffix)) return template;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The class a conventional template belongs to: the one whose @customElement name or
+ * class name matches the file name, otherwise the first exported class.
+ */
+function conventionalClass(sf: SourceFile, baseName: string, paired: Set<ClassDeclaration>): ClassDeclaration | undefined {
+  const candidates = sf.getClasses().filter(c =>
+    c.isExported()
+    && !paired.has(c)
+    && !c.getDecorators().some(d => viewDecorators.has(d.getName()))
+    && !hasInlineTemplate(c)
+  );
+  const pascal = baseName.split(/[-_.]/).filter(Boolean).map(p => p[0].toUpperCase() + p.slice(1)).join('');
+  return candidates.find(c => decoratorsNamed(c, 'customElement').some(d => stringArgument(d.getArguments()[0]) === baseName))
+    ?? candidates.find(c => c.getName() === pascal || c.getName() === `${pascal}CustomElement`)
+    ?? candidates[0];
+}
+
+/**
+ * `@customElement({ template: ... })` that did not resolve to a template file: inline markup
+ * or `null`, either way the class does not use the file next to it.
+ */
+function hasInlineTemplate(cls: ClassDeclaration): boolean {
+  return decoratorsNamed(cls, 'customElement').some(d => {
+    const options = d.getArguments()[0];
+    return Node.isObjectLiteralExpression(options) && options.getProperty('template') !== undefined;
+  });
+}
+
+function classMembers(cls: ClassDeclaration): ClassMembers {
+  const bindables = new Set<string>();
+  const members = new Set<string>();
+  const seen = new Set<ClassDeclaration>();
+  let complete = true;
+
+  for (let current: ClassDeclaration | undefined = cls; current && !seen.has(current); current = current.getBaseClass()) {
+    seen.add(current);
+    if (current.getExtends() && !current.getBaseClass()) complete = false;
+    for (const deco of decoratorsNamed(current, 'bindable')) {
+      const arg = deco.getArguments()[0];
+      const name = Node.isObjectLiteralExpression(arg)
+        ? stringArgument(arg.getProperty('name')?.asKind(SyntaxKind.PropertyAssignment)?.getInitializer())
+        : stringArgument(arg);
+      if (name) bindables.add(name);
+    }
+    for (const member of current.getInstanceProperties()) {
+      const name = member.getName();
+      if (!name) continue;
+      members.add(name);
+      if (Node.isPropertyDeclaration(member) && member.getDecorator('bindable')) bindables.add(name);
+    }
+    for (const method of current.getInstanceMethods()) {
+      members.add(method.getName());
+    }
+    // JS classes declare fields by assigning them
+    for (const access of current.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression)) {
+      const parent = access.getParent();
+      if (access.getExpression().getKind() === SyntaxKind.ThisKeyword
+        && Node.isBinaryExpression(parent)
+        && parent.getLeft() === access
+        && parent.getOperatorToken().getKind() === SyntaxKind.EqualsToken) {
+        members.add(access.getName());
+      }
+    }
+  }
+
+  for (const name of bindables) members.add(name);
+  return { bindables: Array.from(bindables), members: Array.from(members), complete };
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { passes, selectPasses } from './registry';
+
+describe('pass registry', () => {
+  it('has unique pass IDs', () => {
+    const ids = passes.map(p => p.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('declares a mode for every pass', () => {
+    for (const pass of passes) {
+      expect(['edit', 'analyze']).toContain(pass.mode);
+    }
+  });
+
+  it('returns every pass in order by default', () => {
+    expect(selectPasses()).toEqual(passes);
+  });
+
+  it('keeps execution order with --only', () => {
+    const ids = selectPasses(['templates', 'di']).map(p => p.id);
+    expect(ids).toEqual(['di', 'templates']);
+  });
+
+  it('removes skipped passes', () => {
+    const ids = selectPasses(undefined, ['router']).map(p => p.id);
+    expect(ids).not.toContain('router');
+    expect(ids).toContain('di');
+  });
+
+  it('throws on unknown pass IDs', () => {
+    expect(() => selectPasses(['nope'])).toThrow(/Unknown pass 'nope'/);
+    expect(() => selectPasses(undefined, ['nope'])).toThrow(/Known passes: binding-engine/);
+  });
+});
@@ -0,0 +1,160 @@
+import { Project } from 'ts-morph';
+import { FileChange, Reporter } from '../types.js';
+import { ViewPair } from '../pairing.js';
+import { transformBindingEngine } from './transform-binding-engine.js';
+import { transformDI } from './transform-di.js';
+import { transformRegistration } from './transform-registration.js';
+import { transformComputed } from './transform-computed.js';
+import { transformCustomElement } from './transform-custom-element.js';
+import { transformBindingSyntax } from './transform-binding-syntax.js';
+import { transformPlatform, analyzePlatformUsage } from './transform-platform.js';
+import { transformLifecycle, suggestNewLifecycleHooks, detectLifecycleAntiPatterns } from './transform-lifecycle.js';
+import { transformBootstrap, suggestCompatPackage } from './transform-bootstrap.js';
+import { transformRouter, generateRouterMigrationGuide } from './transform-router.js';
+import { transformTemplates } from './transform-templates.js';
+import { analyzeTemplateMembers } from './template-members.js';
+
+export interface PassContext {
+  project: Project;
+  /** Source files the globs matched. The type checker can pull other files into the project, passes must leave those alone. */
+  sourcePaths: ReadonlySet<string>;
+  templatePaths: string[];
+  /** Templates paired with their view-model classes, worked out before any pass runs. */
+  pairs: ViewPair[];
+  reporter: Reporter;
+  write: boolean;
+  /** Template passes push the files they change here. TS changes are read from the project. */
+  files: FileChange[];
+  /** Options from the config file, keyed by pass ID. */
+  passOptions: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * 'edit' passes may change files, 'analyze' passes only add report entries.
+ */
+export type PassMode = 'edit' | 'analyze';
+
+export interface PassDefinition {
+  id: string;
+  description: string;
+  mode: PassMode;
+  run(ctx: PassContext): void;
+}
+
+/**
+ * Every pass in execution order. IDs are stable and used by --only/--skip.
+ */
+export const passes: PassDefinition[] = [
+  {
+    id: 'binding-engine',
+    description: 'Replace BindingEngine injection with an Aurelia 2 based helper',
+    mode: 'edit',
+    run: ({ project, reporter }) => transformBindingEngine(project, reporter)
+  },
+  {
+    id: 'di',
+    description: 'Remove @autoinject/@inject and convert injected parameters to resolve()',
+    mode: 'edit',
+    run: ({ project, sourcePaths, reporter }) => transformDI(project, reporter, sourcePaths)
+  },
+  {
+    id: 'registration',
+    description: 'Rewrite container.register*() to Registration helpers and move @singleton/@transient',
+    mode: 'edit',
+    run: ({ project, reporter }) => transformRegistration(project, reporter)
+  },
+  {
+    id: 'computed',
+    description: 'Replace @computedFrom with @computed',
+    mode: 'edit',
+    run: ({ project, reporter }) => transformComputed(project, reporter)
+  },
+  {
+    id: 'custom-element',
+    description: 'Fold @inlineView/@noView into @customElement',
+    mode: 'edit',
+    run: ({ project, reporter }) => transformCustomElement(project, reporter)
+  },
+  {
+    id: 'binding-syntax',
+    description: 'Replace .sourceExpression with .ast and flag AST method calls',
+    mode: 'edit',
+    run: ({ project, reporter }) => transformBindingSyntax(project, reporter)
+  },
+  {
+    id: 'platform',
+    description: 'Remove PLATFORM.moduleName() and flag other PLATFORM usage',
+    mode: 'edit',
+    run: ({ project, reporter }) => {
+      transformPlatform(project, reporter);
+      analyzePlatformUsage(project, reporter);
+    }
+  },
+  {
+    id: 'lifecycle',
+    description: 'Rename lifecycle methods and flag lifecycle patterns',
+    mode: 'edit',
+    run: ({ project, reporter }) => {
+      transformLifecycle(project, reporter);
+      suggestNewLifecycleHooks(project, reporter);
+      detectLifecycleAntiPatterns(project, reporter);
+    }
+  },
+  {
+    id: 'bootstrap',
+    description: 'Bootstrap migration guidance and compat package suggestions',
+    mode: 'analyze',
+    run: ({ project, reporter }) => {
+      transformBootstrap(project, reporter);
+      suggestCompatPackage(project, reporter);
+    }
+  },
+  {
+    id: 'router',
+    description: 'Router configuration, lifecycle and navigation analysis',
+    mode: 'analyze',
+    run: ({ project, reporter }) => {
+      transformRouter(project, reporter);
+      generateRouterMigrationGuide(project, reporter);
+    }
+  },
+  {
+    id: 'templates',
+    description: 'Rewrite v1 template syntax and flag event handlers',
+    mode: 'edit',
+    run: ({ templatePaths, reporter, write, files, passOptions }) => {
+      const applyPrevent = passOptions.templates?.applyPrevent === true;
+      files.push(...transformTemplates(templatePaths, reporter, { write, applyPrevent }));
+    }
+  },
+  {
+    id: 'template-members',
+    description: 'Check template bindings against the members of their view-model class',
+    mode: 'analyze',
+    run: ({ project, pairs, files, reporter }) => analyzeTemplateMembers(project, pairs, files, reporter)
+  }
+];
+
+/**
+ * Unknown IDs are an error so typos do not silently run everything.
+ */
+export function assertKnownPasses(ids: string[]) {
+  const known = new Set(passes.map(p => p.id));
+  for (const id of ids) {
+    if (!known.has(id)) {
+      throw new Error(`Unknown pass '${id}'. Known passes: ${Array.from(known).join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Pick passes by ID, keeping execution order.
+ */
+export function selectPasses(only?: string[], skip?: string[]): PassDefinition[] {
+  assertKnownPasses([...(only ?? []), ...(skip ?? [])]);
+  return passes.filter(p => {
+    if (only && only.length > 0 && !only.includes(p.id)) return false;
+    if (skip && skip.includes(p.id)) return false;
+    return true;
+  });
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Project } from 'ts-morph';
+import { analyzeTemplateMembers } from './template-members';
+import { pairViews } from '../pairing';
+import { Reporter } from '../types.js';
+
+describe('analyzeTemplateMembers', () => {
+  let project: Project;
+  let reporter: Reporter;
+
+  beforeEach(() => {
+    project = new Project({
+      compilerOptions: { strict: false },
+      useInMemoryFileSystem: true
+    });
+    reporter = new Reporter({});
+  });
+
+  /**
+   * Templates are passed as changed files so the pass does not touch the disk.
+   */
+  function analyze(source: string, html: string) {
+    project.createSourceFile('/app/src/page.ts', source);
+    const pairs = pairViews(project, ['/app/src/page.html']);
+    analyzeTemplateMembers(project, pairs, [{ path: '/app/src/page.html', before: html, after: html }], reporter);
+    return reporter.finish().entries.filter(e => e.rule === 'template-members/unknown-member');
+  }
+
+  it('reports names that are not members of the view model', () => {
+    const warnings = analyze(`
+export class Page {
+  name = '';
+  items = [];
+  save() {}
+}`, `<template>
+  <input value.bind="nmae">
+  <button click.trigger="save(name, missing)">Save</button>
+  <p>\${title}</p>
+</template>`);
+
+    expect(warnings.map(w => [w.message, w.loc])).toEqual([
+      [`value.bind="nmae" uses 'nmae', which is not a member of Page.`, { line: 2, col: 10 }],
+      [`click.trigger="save(name, missing)" uses 'missing', which is not a member of Page.`, { line: 3, col: 11 }],
+      [`\${title} uses 'title', which is not a member of Page.`, { line: 4, col: 6 }]
+    ]);
+  });
+
+  it('knows repeat locals, contextual names, globals, converters and behaviors', () => {
+    const warnings = analyze(`
+export class Page {
+  items = [];
+  select(item) {}
+}`, `<template>
+  <div repeat.for="[key, item] of items | sort:order & signal:'refresh'" click.trigger="select(item, $event)">
+    \${$index}: \${key} \${item.name | upper} \${Math.round(item.price)}
+    <span repeat.for="child of item.children">\${child.name} \${$parent.items.length}</span>
+  </div>
+  <p>\${items.map(i => i.name).join(', ')} \${{ value: items }.value}</p>
+</template>`);
+
+    expect(warnings.map(w => w.message)).toEqual([
+      `repeat.for="[key, item] of items | sort:order & signal:'refresh'" uses 'order', which is not a member of Page.`
+    ]);
+  });
+
+  it('accepts refs, lets and inherited members', () => {
+    const warnings = analyze(`
+class Base {
+  loading = false;
+}
+
+export class Page extends Base {
+}`, `<template>
+  <let full-name.bind="'a'"></let>
+  <input ref="nameInput" value.bind="fullName">
+  <my-el component.ref="child"></my-el>
+  <p if.bind="!loading">\${nameInput.value} \${child.value}</p>
+</template>`);
+
+    expect(warnings).toEqual([]);
+  });
+
+  it('checks classes as the edit passes left them', () => {
+    const sf = project.createSourceFile('/app/src/page.ts', `
+export class Page {
+  userName = '';
+}`);
+    const pairs = pairViews(project, ['/app/src/page.html']);
+    sf.getClassOrThrow('Page').getPropertyOrThrow('userName').rename('username');
+    const html = `<input value.bind="userName">`;
+
+    analyzeTemplateMembers(project, pairs, [{ path: '/app/src/page.html', before: html, after: html }], reporter);
+
+    expect(reporter.finish().entries.map(e => e.message)).toEqual([
+      `value.bind="userName" uses 'userName', which is not a member of Page.`
+    ]);
+  });
+
+  it('skips classes whose base class is not in the project', () => {
+    const warnings = analyze(`
+import { Base } from 'somewhere';
+
+export class Page extends Base {}`, `<p>\${fromBase}</p>`);
+
+    expect(warnings).toEqual([]);
+  });
+
+  it('does not look inside with.bind or expressions that do not parse', () => {
+    const warnings = analyze(`
+export class Page {
+  user = {};
+}`, `<template>
+  <div with.bind="user">\${firstName}</div>
+  <p>\${user.name | }</p>
+  <p>\${missing + }</p>
+</template>`);
+
+    expect(warnings).toEqual([]);
+  });
+});
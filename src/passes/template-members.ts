@@ -0,0 +1,25 @@
+import * as fs from 'node:fs';
+import { Project } from 'ts-morph';
+import { FileChange, Reporter } from '../types.js';
+import { ViewPair, viewModelMembers } from '../pairing.js';
+import { templateUsage } from '../template-usage.js';
+
+/**
+ * Check every binding expression in paired templates against the members of the view-model
+ * class as it is after the edit passes. Templates are read as the template pass left them,
+ * including in dry runs. Classes with an unresolved base class are skipped since their
+ * member list is incomplete.
+ */
+export function analyzeTemplateMembers(project: Project, pairs: ViewPair[], files: FileChange[], reporter: Reporter) {
+  for (const pair of pairs) {
+    const current = viewModelMembers(project, pair);
+    if (!current?.complete) continue;
+
+    const html = files.find(f => f.path === pair.template)?.after ?? fs.readFileSync(pair.template, 'utf8');
+    const members = new Set(current.members);
+    for (const { name, label, loc } of templateUsage(html)) {
+      if (members.has(name)) continue;
+      reporter.warn(pair.template, `${label} uses '${name}', which is not a member of ${pair.className}.`, { rule: 'template-members/unknown-member', loc });
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parseFragment, DefaultTreeAdapterTypes } from 'parse5';
+import { TemplateSource } from './template-source';
+
+function firstElement(html: string) {
+  const doc = parseFragment(html, { sourceCodeLocationInfo: true });
+  return doc.childNodes.find(n => 'tagName' in n) as DefaultTreeAdapterTypes.Element;
+}
+
+describe('TemplateSource', () => {
+  it('leaves the text alone until something is edited', () => {
+    const source = new TemplateSource('<div  a = "1" ></div>');
+    expect(source.changed).toBe(false);
+    expect(source.apply()).toBe('<div  a = "1" ></div>');
+  });
+
+  it('renames start and end tags and keeps the node in sync', () => {
+    const html = '<Compose a="1">x</Compose>';
+    const el = firstElement(html);
+    const source = new TemplateSource(html);
+    source.renameTag(el, 'au-compose');
+    expect(el.tagName).toBe('au-compose');
+    expect(source.apply()).toBe('<au-compose a="1">x</au-compose>');
+  });
+
+  it('keeps only the last rename of an attribute', () => {
+    const html = '<a x.delegate="go()"></a>';
+    const el = firstElement(html);
+    const source = new TemplateSource(html);
+    source.renameAttr(el, el.attrs[0], 'x.trigger');
+    source.renameAttr(el, el.attrs[0], 'x.trigger:prevent');
+    expect(source.apply()).toBe('<a x.trigger:prevent="go()"></a>');
+  });
+
+  it('removes attributes with their leading whitespace', () => {
+    const html = '<template replaceable\n   part="x"></template>';
+    const el = firstElement(html);
+    const source = new TemplateSource(html);
+    source.removeAttr(el, el.attrs[0]);
+    expect(el.attrs.map(a => a.name)).toEqual(['part']);
+    expect(source.apply()).toBe('<template\n   part="x"></template>');
+  });
+
+  it('sets values with or without existing quotes', () => {
+    const html = `<a one='1' two=2 three></a>`;
+    const el = firstElement(html);
+    const source = new TemplateSource(html);
+    source.setAttrValue(el, el.attrs[0], `it's`);
+    source.setAttrValue(el, el.attrs[1], 'say "hi"');
+    source.setAttrValue(el, el.attrs[2], 'x');
+    expect(source.apply()).toBe(`<a one='it&#39;s' two='say "hi"' three="x"></a>`);
+    expect(el.attrs.map(a => a.value)).toEqual([`it's`, 'say "hi"', 'x']);
+  });
+
+  it('returns raw values with entities still encoded', () => {
+    const html = '<a title="a &amp; b"></a>';
+    const el = firstElement(html);
+    expect(new TemplateSource(html).rawAttrValue(el, el.attrs[0])).toBe('a &amp; b');
+  });
+});
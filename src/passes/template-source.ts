@@ -0,0 +1,234 @@
+import { DefaultTreeAdapterTypes } from 'parse5';
+
+type Element = DefaultTreeAdapterTypes.Element;
+type Attribute = Element['attrs'][number];
+
+interface Splice {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Start and end offsets of the contents of every `${...}` in an attribute value or text node.
+ */
+export function interpolationRanges(text: string): [number, number][] {
+  const found: [number, number][] = [];
+  let start = text.indexOf('${');
+  while (start !== -1) {
+    let depth = 1;
+    let quote = '';
+    let i = start + 2;
+    for (; i < text.length && depth > 0; i++) {
+      const ch = text[i];
+      if (quote) {
+        if (ch === quote && text[i - 1] !== '\\') quote = '';
+      } else if (ch === '"' || ch === "'" || ch === '`') {
+        quote = ch;
+      } else if (ch === '{') {
+        depth++;
+      } else if (ch === '}') {
+        depth--;
+      }
+    }
+    if (depth !== 0) break;
+    found.push([start + 2, i - 1]);
+    start = text.indexOf('${', i);
+  }
+  return found;
+}
+
+/**
+ * Contents of every `${...}` in an attribute value or text node.
+ */
+export function interpolations(text: string): string[] {
+  return interpolationRanges(text).map(([start, end]) => text.slice(start, end));
+}
+
+/**
+ * Rewrite the contents of every `${...}`, leaving the literal text around them alone.
+ */
+export function rewriteInterpolations(text: string, rewrite: (expression: string) => string): string {
+  let result = text;
+  for (const [start, end] of interpolationRanges(text).reverse()) {
+    result = result.slice(0, start) + rewrite(result.slice(start, end)) + result.slice(end);
+  }
+  return result;
+}
+
+/**
+ * Original template text plus the edits made to it. Elements must come from parsing `text`
+ * with `sourceCodeLocationInfo: true`. Edits update the parse5 node as well, so later checks
+ * see the new names, and are applied to the original text as splices so quoting, whitespace
+ * and anything parse5 does not round-trip stay untouched.
+ */
+export class TemplateSource {
+  /** Keyed by region, so editing the same name or value twice keeps only the last edit. */
+  private splices = new Map<string, Splice>();
+  /** Attribute locations are keyed by the name as parsed. */
+  private originalNames = new WeakMap<Attribute, string>();
+
+  constructor(readonly text: string) {}
+
+  get changed(): boolean {
+    return this.splices.size > 0;
+  }
+
+  renameTag(element: Element, name: string) {
+    const loc = element.sourceCodeLocation;
+    if (loc?.startTag) {
+      this.splice(loc.startTag.startOffset + 1, this.tagNameLength(loc.startTag.startOffset + 1), name);
+    }
+    if (loc?.endTag) {
+      this.splice(loc.endTag.startOffset + 2, this.tagNameLength(loc.endTag.startOffset + 2), name);
+    }
+    element.tagName = name;
+    element.nodeName = name;
+  }
+
+  renameAttr(element: Element, attr: Attribute, name: string) {
+    const original = this.originalName(attr);
+    const loc = element.sourceCodeLocation?.attrs?.[original];
+    if (loc) {
+      this.splice(loc.startOffset, original.length, name);
+    }
+    attr.name = name;
+  }
+
+  /**
+   * Remove an attribute together with the whitespace in front of it.
+   */
+  removeAttr(element: Element, attr: Attribute) {
+    const loc = element.sourceCodeLocation?.attrs?.[this.originalName(attr)];
+    if (loc) {
+      let start = loc.startOffset;
+      while (start > 0 && /\s/.test(this.text[start - 1])) start--;
+      this.replace(start, loc.endOffset, '');
+    }
+    element.attrs.splice(element.attrs.indexOf(attr), 1);
+  }
+
+  /**
+   * Replace the whole value, adding quotes when the original was unquoted or had none.
+   */
+  setAttrValue(element: Element, attr: Attribute, value: string) {
+    const range = this.valueRange(element, attr);
+    if (range) {
+      const quote = range.quote || (value.includes('"') ? "'" : '"');
+      const escaped = value.split(quote).join(quote === '"' ? '&quot;' : '&#39;');
+      const text = range.quote ? escaped : `${quote}${escaped}${quote}`;
+      if (range.hasValue) {
+        this.replace(range.start, range.end, text);
+      } else {
+        this.replace(range.start, range.end, `=${text}`);
+      }
+    }
+    attr.value = value;
+  }
+
+  /**
+   * Insert text before the first non-blank character of a quoted value. Unquoted values
+   * are rewritten whole since the prefix may contain spaces.
+   */
+  prefixAttrValue(element: Element, attr: Attribute, prefix: string) {
+    const range = this.valueRange(element, attr);
+    if (!range?.quote) {
+      this.setAttrValue(element, attr, prefix + attr.value.trim());
+      return;
+    }
+    const raw = this.text.slice(range.start, range.end);
+    const at = range.start + (raw.length - raw.trimStart().length);
+    this.replace(at, at, prefix);
+    attr.value = prefix + attr.value.trim();
+  }
+
+  /**
+   * Rewrite the raw value text in place, quotes untouched. Returns true when it changed.
+   */
+  rewriteAttrValue(element: Element, attr: Attribute, rewrite: (raw: string) => string): boolean {
+    const range = this.valueRange(element, attr);
+    if (!range?.hasValue) return false;
+    const raw = this.text.slice(range.start, range.end);
+    const next = rewrite(raw);
+    if (next === raw) return false;
+    this.replace(range.start, range.end, next);
+    attr.value = rewrite(attr.value);
+    return true;
+  }
+
+  /**
+   * Rewrite the raw text of a text node. Returns true when it changed.
+   */
+  rewriteText(node: DefaultTreeAdapterTypes.TextNode, rewrite: (raw: string) => string): boolean {
+    const loc = node.sourceCodeLocation;
+    if (!loc) return false;
+    const raw = this.text.slice(loc.startOffset, loc.endOffset);
+    const next = rewrite(raw);
+    if (next === raw) return false;
+    this.replace(loc.startOffset, loc.endOffset, next);
+    node.value = rewrite(node.value);
+    return true;
+  }
+
+  /**
+   * Raw source text of an attribute value, entities left encoded.
+   */
+  rawAttrValue(element: Element, attr: Attribute): string | undefined {
+    const range = this.valueRange(element, attr);
+    return range ? this.text.slice(range.start, range.end) : undefined;
+  }
+
+  replace(start: number, end: number, text: string) {
+    this.splices.set(`${start}:${end}`, { start, end, text });
+  }
+
+  /**
+   * Original text with every splice applied. Splices must not overlap.
+   */
+  apply(): string {
+    const splices = Array.from(this.splices.values()).sort((a, b) => b.start - a.start || b.end - a.end);
+    let text = this.text;
+    for (const s of splices) {
+      text = text.slice(0, s.start) + s.text + text.slice(s.end);
+    }
+    return text;
+  }
+
+  private splice(start: number, length: number, text: string) {
+    this.replace(start, start + length, text);
+  }
+
+  private tagNameLength(offset: number): number {
+    const re = /[^\s/>]*/y;
+    re.lastIndex = offset;
+    return re.exec(this.text)![0].length;
+  }
+
+  private originalName(attr: Attribute): string {
+    let name = this.originalNames.get(attr);
+    if (name === undefined) {
+      name = attr.name;
+      this.originalNames.set(attr, name);
+    }
+    return name;
+  }
+
+  /**
+   * Offsets of the value inside an attribute, without its quotes. Attributes without a value
+   * give an empty range right after the name.
+   */
+  private valueRange(element: Element, attr: Attribute) {
+    const original = this.originalName(attr);
+    const loc = element.sourceCodeLocation?.attrs?.[original];
+    if (!loc) return undefined;
+    const source = this.text.slice(loc.startOffset, loc.endOffset);
+    const match = /^[^\s=]+\s*=\s*(["']?)/.exec(source);
+    if (!match) {
+      return { start: loc.endOffset, end: loc.endOffset, quote: '', hasValue: false };
+    }
+    const quote = match[1];
+    const start = loc.startOffset + match[0].length;
+    const end = quote ? loc.endOffset - 1 : loc.endOffset;
+    return { start, end, quote, hasValue: true };
+  }
+}
@@ -1,5 +1,6 @@
 import { Node, Project, Scope, SourceFile, SyntaxKind } from 'ts-morph';
 import { Reporter } from '../types.js';
+import { nodeLoc } from '../location.js';
 
 const aureliaV1Modules = new Set(['aurelia-binding', 'aurelia-framework']);
 
@@ -36,13 +37,13 @@ function removeNamedImports(sf: SourceFile, module: string, removeNames: Set<str
   }
 }
 
-function hasNonImportIdentifier(sf: SourceFile, name: string): boolean {
+function findNonImportIdentifier(sf: SourceFile, name: string): Node | undefined {
   for (const id of sf.getDescendantsOfKind(SyntaxKind.Identifier)) {
     if (id.getText() !== name) continue;
     if (id.getFirstAncestorByKind(SyntaxKind.ImportDeclaration)) continue;
-    return true;
+    return id;
   }
-  return false;
+  return undefined;
 }
 
 function addBindingEngineHelper(sf: SourceFile) {
@@ -132,15 +133,16 @@ export function transformBindingEngine(project: Project, reporter: Reporter) {
           || typeText.endsWith('.BindingEngine')
         );
         if (!isBindingEngine) continue;
+        const loc = nodeLoc(param);
 
         if (!param.isParameterProperty()) {
-          reporter.warn(sf.getFilePath(), `BindingEngine parameter '${param.getName()}' is not a parameter property. Manual migration required.`);
+          reporter.warn(sf.getFilePath(), `BindingEngine parameter '${param.getName()}' is not a parameter property. Manual migration required.`, { rule: 'binding-engine/not-parameter-property', loc });
           continue;
         }
 
         const name = param.getName();
         if (cls.getProperty(name)) {
-          reporter.warn(sf.getFilePath(), `Class ${cls.getName() || '(anonymous)'} already has a '${name}' property. Skipped BindingEngine replacement.`);
+          reporter.warn(sf.getFilePath(), `Class ${cls.getName() || '(anonymous)'} already has a '${name}' property. Skipped BindingEngine replacement.`, { rule: 'binding-engine/property-conflict', loc });
           continue;
         }
 
@@ -154,7 +156,7 @@ export function transformBindingEngine(project: Project, reporter: Reporter) {
         param.remove();
         touched = true;
         helperNeeded = true;
-        reporter.edit(sf.getFilePath(), `Replaced BindingEngine injection with createAureliaBindingEngine() for '${name}' on class ${cls.getName() || '(anonymous)'}`);
+        reporter.edit(sf.getFilePath(), `Replaced BindingEngine injection with createAureliaBindingEngine() for '${name}' on class ${cls.getName() || '(anonymous)'}`, undefined, undefined, { loc });
       }
 
       for (const deco of cls.getDecorators()) {
@@ -168,12 +170,13 @@ export function transformBindingEngine(project: Project, reporter: Reporter) {
           return !bindingEngineLocals.has(text);
         });
         if (kept.length !== args.length) {
+          const loc = nodeLoc(deco);
           if (kept.length === 0) {
             deco.remove();
-            reporter.edit(sf.getFilePath(), `Removed @inject(BindingEngine) from class ${cls.getName() || '(anonymous)'}`);
+            reporter.edit(sf.getFilePath(), `Removed @inject(BindingEngine) from class ${cls.getName() || '(anonymous)'}`, undefined, undefined, { loc });
           } else {
             expr.replaceWithText(`${expr.getExpression().getText()}(${kept.map(a => a.getText()).join(', ')})`);
-            reporter.edit(sf.getFilePath(), `Removed BindingEngine from @inject(...) on class ${cls.getName() || '(anonymous)'}`);
+            reporter.edit(sf.getFilePath(), `Removed BindingEngine from @inject(...) on class ${cls.getName() || '(anonymous)'}`, undefined, undefined, { loc });
           }
           touched = true;
         }
@@ -185,14 +188,14 @@ export function transformBindingEngine(project: Project, reporter: Reporter) {
       ensureImport(sf, 'aurelia', ['resolve', 'IObserverLocator', 'IExpressionParser', 'Scope']);
       ensureImport(sf, '@aurelia/runtime', ['getCollectionObserver']);
       ensureImport(sf, '@aurelia/runtime-html', ['ExpressionWatcher']);
-      reporter.add(sf.getFilePath(), 'Added createAureliaBindingEngine() helper based on Aurelia 2 APIs');
+      reporter.add(sf.getFilePath(), 'Added createAureliaBindingEngine() helper based on Aurelia 2 APIs', undefined, { loc: nodeLoc(sf.getFunctionOrThrow('createAureliaBindingEngine')) });
       touched = true;
     }
 
     if (touched) {
-      const remaining = Array.from(bindingEngineLocals).some(name => hasNonImportIdentifier(sf, name));
+      const remaining = Array.from(bindingEngineLocals).map(name => findNonImportIdentifier(sf, name)).find(Boolean);
       if (remaining) {
-        reporter.warn(sf.getFilePath(), 'BindingEngine references remain after migration. Manual update required.');
+        reporter.warn(sf.getFilePath(), 'BindingEngine references remain after migration. Manual update required.', { rule: 'binding-engine/remaining-references', loc: nodeLoc(remaining) });
       } else {
         for (const mod of aureliaV1Modules) {
           removeNamedImports(sf, mod, new Set(['BindingEngine']));
@@ -1,5 +1,6 @@
 import { Node, Project, SyntaxKind } from 'ts-morph';
 import { Reporter } from '../types.js';
+import { nodeLoc } from '../location.js';
 
 const AST_METHODS = new Map<string, string>([
   ['evaluate', 'astEvaluate'],
@@ -15,8 +16,9 @@ export function transformBindingSyntax(project: Project, reporter: Reporter) {
 
     for (const propAccess of sf.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression)) {
       if (propAccess.getName() === 'sourceExpression') {
+        const loc = nodeLoc(propAccess.getNameNode());
         propAccess.replaceWithText(`${propAccess.getExpression().getText()}.ast`);
-        reporter.edit(sf.getFilePath(), 'Replaced .sourceExpression with .ast');
+        reporter.edit(sf.getFilePath(), 'Replaced .sourceExpression with .ast', undefined, undefined, { loc });
         touched = true;
       }
     }
@@ -25,8 +27,9 @@ export function transformBindingSyntax(project: Project, reporter: Reporter) {
       const arg = elemAccess.getArgumentExpression();
       if (!arg || !Node.isStringLiteral(arg)) continue;
       if (arg.getLiteralValue() !== 'sourceExpression') continue;
+      const loc = nodeLoc(arg);
       arg.replaceWithText("'ast'");
-      reporter.edit(sf.getFilePath(), 'Replaced ["sourceExpression"] with ["ast"]');
+      reporter.edit(sf.getFilePath(), 'Replaced ["sourceExpression"] with ["ast"]', undefined, undefined, { loc });
       touched = true;
     }
 
@@ -36,7 +39,7 @@ export function transformBindingSyntax(project: Project, reporter: Reporter) {
       const name = expr.getName();
       const helper = AST_METHODS.get(name);
       if (!helper) continue;
-      reporter.warn(sf.getFilePath(), `Found AST method call ".${name}()". Use ${helper}(...) instead.`);
+      reporter.warn(sf.getFilePath(), `Found AST method call ".${name}()". Use ${helper}(...) instead.`, { rule: 'binding-syntax/ast-method', loc: nodeLoc(expr.getNameNode()) });
       touched = true;
     }
   }
@@ -1,5 +1,6 @@
 import { Project, SyntaxKind, SourceFile } from 'ts-morph';
 import { Reporter } from '../types.js';
+import { textLoc } from '../location.js';
 import * as path from 'node:path';
 
 /**
@@ -124,10 +125,12 @@ function analyzeAurelia1Bootstrap(content: string): Aurelia1BootstrapAnalysis {
 function generateMigrationGuidance(mainFile: SourceFile, analysis: Aurelia1BootstrapAnalysis, reporter: Reporter) {
   const filePath = mainFile.getFilePath();
   const appComponent = analysis.appComponent || 'app';
+  const loc = textLoc(mainFile, mainFile.getFullText().includes('aurelia.use') ? 'aurelia.use' : 'aurelia.configure');
   
   reporter.warn(
     filePath,
-    `Aurelia 1 bootstrap detected in main.ts. This needs manual migration to Aurelia 2.`
+    `Aurelia 1 bootstrap detected in main.ts. This needs manual migration to Aurelia 2.`,
+    { rule: 'bootstrap/manual-migration', loc }
   );
   
   // Generate example bootstrap code
@@ -135,7 +138,8 @@ function generateMigrationGuidance(mainFile: SourceFile, analysis: Aurelia1Boots
   
   reporter.note(
     filePath,
-    `Example Aurelia 2 bootstrap code:\n${exampleCode}`
+    `Example Aurelia 2 bootstrap code:\n${exampleCode}`,
+    { rule: 'bootstrap/example', loc }
   );
   
   // Report on plugins that need manual migration
@@ -143,12 +147,14 @@ function generateMigrationGuidance(mainFile: SourceFile, analysis: Aurelia1Boots
     if (requiresManualMigration(plugin)) {
       reporter.warn(
         filePath,
-        `Plugin '${plugin}' needs manual migration to Aurelia 2. Check if an Aurelia 2 version is available.`
+        `Plugin '${plugin}' needs manual migration to Aurelia 2. Check if an Aurelia 2 version is available.`,
+        { rule: 'bootstrap/plugin-manual', loc: textLoc(mainFile, plugin) }
       );
     } else {
       reporter.note(
         filePath,
-        `Plugin '${plugin}' has an Aurelia 2 equivalent available.`
+        `Plugin '${plugin}' has an Aurelia 2 equivalent available.`,
+        { rule: 'bootstrap/plugin-available', loc: textLoc(mainFile, plugin) }
       );
     }
   }
@@ -156,7 +162,8 @@ function generateMigrationGuidance(mainFile: SourceFile, analysis: Aurelia1Boots
   if (analysis.features.length > 0) {
     reporter.warn(
       filePath,
-      `Features detected: ${analysis.features.join(', ')}. These need manual migration - features work differently in Aurelia 2.`
+      `Features detected: ${analysis.features.join(', ')}. These need manual migration - features work differently in Aurelia 2.`,
+      { rule: 'bootstrap/features', loc: textLoc(mainFile, analysis.features[0]) }
     );
   }
 }
@@ -279,7 +286,8 @@ function handleWebpackBootstrap(mainFile: SourceFile, reporter: Reporter) {
   if (content.includes('webpack_require') || content.includes('require.ensure')) {
     reporter.warn(
       mainFile.getFilePath(),
-      'Webpack-specific bootstrap patterns detected. Aurelia 2 works with modern bundlers without special configuration. Review bundler setup.'
+      'Webpack-specific bootstrap patterns detected. Aurelia 2 works with modern bundlers without special configuration. Review bundler setup.',
+      { rule: 'bootstrap/webpack', loc: textLoc(mainFile, content.includes('webpack_require') ? 'webpack_require' : 'require.ensure') }
     );
   }
 }
@@ -293,12 +301,14 @@ function analyzeHtmlBootstrap(project: Project, reporter: Reporter) {
   
   reporter.note(
     'HTML_FILES',
-    'Remember to remove aurelia-app attributes from HTML files. Aurelia 2 uses explicit bootstrap in main.ts instead.'
+    'Remember to remove aurelia-app attributes from HTML files. Aurelia 2 uses explicit bootstrap in main.ts instead.',
+    { rule: 'bootstrap/aurelia-app' }
   );
   
   reporter.note(
     'HTML_FILES', 
-    'Update script tags to load the new main.js bundle. Remove aurelia-bootstrapper references.'
+    'Update script tags to load the new main.js bundle. Remove aurelia-bootstrapper references.',
+    { rule: 'bootstrap/script-tags' }
   );
 }
 
@@ -324,12 +334,14 @@ export function suggestCompatPackage(project: Project, reporter: Reporter) {
   if (needsCompat) {
     reporter.note(
       'COMPATIBILITY',
-      'Consider installing @aurelia/compat-v1 for easier migration. Run: npm install @aurelia/compat-v1'
+      'Consider installing @aurelia/compat-v1 for easier migration. Run: npm install @aurelia/compat-v1',
+      { rule: 'bootstrap/compat-package' }
     );
     
     reporter.note(
       'COMPATIBILITY',
-      'With compat package, add compatRegistration to your bootstrap: Aurelia.register(compatRegistration, ...)'
+      'With compat package, add compatRegistration to your bootstrap: Aurelia.register(compatRegistration, ...)',
+      { rule: 'bootstrap/compat-package' }
     );
   }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { Project, SyntaxKind, Node, SourceFile } from 'ts-morph';
 import { Reporter } from '../types.js';
+import { nodeLoc } from '../location.js';
 
 function ensureImport(sf: SourceFile, module: string, names: string[]): boolean {
   const existing = sf.getImportDeclarations().find(i => i.getModuleSpecifierValue() === module);
@@ -57,6 +58,7 @@ export function transformComputed(project: Project, reporter: Reporter) {
       }
 
       if (!isComputedFrom) continue;
+      const loc = nodeLoc(d);
 
       const member = d.getFirstAncestorByKind(SyntaxKind.GetAccessor)
         || d.getFirstAncestorByKind(SyntaxKind.MethodDeclaration)
@@ -64,13 +66,13 @@ export function transformComputed(project: Project, reporter: Reporter) {
 
       if (!member || member.getKind() !== SyntaxKind.GetAccessor) {
         d.remove();
-        reporter.edit(sf.getFilePath(), 'Removed @computedFrom decorator');
+        reporter.edit(sf.getFilePath(), 'Removed @computedFrom decorator', undefined, undefined, { loc });
         if (member && member.getKind() === SyntaxKind.MethodDeclaration) {
-          reporter.warn(sf.getFilePath(), 'A method had @computedFrom. In v2, use a getter with @computed(...) or a plain getter for dependency tracking.');
+          reporter.warn(sf.getFilePath(), 'A method had @computedFrom. In v2, use a getter with @computed(...) or a plain getter for dependency tracking.', { rule: 'computed/method', loc });
         } else if (member && member.getKind() === SyntaxKind.PropertyDeclaration) {
-          reporter.warn(sf.getFilePath(), 'A property had @computedFrom. In v2, use a getter with @computed(...) or a plain getter for dependency tracking.');
+          reporter.warn(sf.getFilePath(), 'A property had @computedFrom. In v2, use a getter with @computed(...) or a plain getter for dependency tracking.', { rule: 'computed/property', loc });
         } else {
-          reporter.warn(sf.getFilePath(), 'Found @computedFrom in an unsupported location. In v2, use a getter with @computed(...) or a plain getter.');
+          reporter.warn(sf.getFilePath(), 'Found @computedFrom in an unsupported location. In v2, use a getter with @computed(...) or a plain getter.', { rule: 'computed/unsupported-location', loc });
         }
         touched = true;
         continue;
@@ -79,15 +81,15 @@ export function transformComputed(project: Project, reporter: Reporter) {
       const args = expr.getArguments();
       if (args.length === 0) {
         d.remove();
-        reporter.edit(sf.getFilePath(), 'Removed @computedFrom decorator');
-        reporter.warn(sf.getFilePath(), 'Getter had @computedFrom with no dependencies. In v2, use @computed(...) with deps or remove the decorator.');
+        reporter.edit(sf.getFilePath(), 'Removed @computedFrom decorator', undefined, undefined, { loc });
+        reporter.warn(sf.getFilePath(), 'Getter had @computedFrom with no dependencies. In v2, use @computed(...) with deps or remove the decorator.', { rule: 'computed/no-dependencies', loc });
         touched = true;
         continue;
       }
 
       const argsText = args.map(arg => arg.getText()).join(', ');
       d.replaceWithText(`@computed(${argsText})`);
-      reporter.edit(sf.getFilePath(), 'Replaced @computedFrom with @computed');
+      reporter.edit(sf.getFilePath(), 'Replaced @computedFrom with @computed', undefined, undefined, { loc });
       touched = true;
       needComputedImport = true;
     }
@@ -97,6 +99,7 @@ export function transformComputed(project: Project, reporter: Reporter) {
       const mod = imp.getModuleSpecifierValue();
       if (!aureliaV1Modules.has(mod)) continue;
       let changed = false;
+      const loc = nodeLoc(imp);
       for (const ni of [...imp.getNamedImports()]) {
         if (ni.getName() === 'computedFrom') {
           ni.remove();
@@ -107,14 +110,14 @@ export function transformComputed(project: Project, reporter: Reporter) {
         if (imp.getNamedImports().length === 0 && !imp.getDefaultImport() && !imp.getNamespaceImport()) {
           imp.remove();
         }
-        reporter.edit(sf.getFilePath(), 'Removed computedFrom import');
+        reporter.edit(sf.getFilePath(), 'Removed computedFrom import', undefined, undefined, { loc });
         touched = true;
       }
     }
 
     if (needComputedImport) {
       if (ensureImport(sf, 'aurelia', ['computed'])) {
-        reporter.add(sf.getFilePath(), 'Added computed import from aurelia');
+        reporter.add(sf.getFilePath(), 'Added computed import from aurelia', undefined, { loc: nodeLoc(sf.getImportDeclarationOrThrow('aurelia')) });
         touched = true;
       }
     }
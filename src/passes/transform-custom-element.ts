@@ -1,5 +1,6 @@
 import { Node, Project, SyntaxKind, SourceFile } from 'ts-morph';
 import { Reporter } from '../types.js';
+import { nodeLoc } from '../location.js';
 
 const aureliaV1Modules = new Set(['aurelia-framework', 'aurelia-templating']);
 
@@ -118,32 +119,33 @@ export function transformCustomElement(project: Project, reporter: Reporter) {
         const inlineMatch = getDecoratorMatch(deco.getExpression(), inlineViewLocals, inlineViewNamespaces, 'inlineView');
         const noViewMatch = getDecoratorMatch(deco.getExpression(), noViewLocals, noViewNamespaces, 'noView');
         if (!inlineMatch && !noViewMatch) continue;
+        const loc = nodeLoc(deco);
         if (inlineMatch) {
           hasInlineView = true;
           const expr = deco.getExpression();
           if (Node.isCallExpression(expr)) {
             const args = expr.getArguments();
             if (args.length === 0) {
-              reporter.warn(sf.getFilePath(), `@inlineView on class ${cls.getName() || '(anonymous)'} has no template argument. Manual migration required.`);
+              reporter.warn(sf.getFilePath(), `@inlineView on class ${cls.getName() || '(anonymous)'} has no template argument. Manual migration required.`, { rule: 'custom-element/inline-view-no-template', loc });
               continue;
             }
             templateExpr = args[0].getText();
             if (args.length > 1) {
-              reporter.warn(sf.getFilePath(), `@inlineView on class ${cls.getName() || '(anonymous)'} has extra arguments. Dependencies need manual migration.`);
+              reporter.warn(sf.getFilePath(), `@inlineView on class ${cls.getName() || '(anonymous)'} has extra arguments. Dependencies need manual migration.`, { rule: 'custom-element/inline-view-extra-args', loc });
             }
           } else {
-            reporter.warn(sf.getFilePath(), `@inlineView on class ${cls.getName() || '(anonymous)'} is not a call expression. Manual migration required.`);
+            reporter.warn(sf.getFilePath(), `@inlineView on class ${cls.getName() || '(anonymous)'} is not a call expression. Manual migration required.`, { rule: 'custom-element/inline-view-not-call', loc });
             continue;
           }
           deco.remove();
-          reporter.edit(sf.getFilePath(), `Removed @inlineView from class ${cls.getName() || '(anonymous)'}`);
+          reporter.edit(sf.getFilePath(), `Removed @inlineView from class ${cls.getName() || '(anonymous)'}`, undefined, undefined, { loc });
           touched = true;
         }
         if (noViewMatch) {
           hasNoView = true;
           templateExpr = 'null';
           deco.remove();
-          reporter.edit(sf.getFilePath(), `Removed @noView from class ${cls.getName() || '(anonymous)'}`);
+          reporter.edit(sf.getFilePath(), `Removed @noView from class ${cls.getName() || '(anonymous)'}`, undefined, undefined, { loc });
           touched = true;
         }
       }
@@ -157,42 +159,44 @@ export function transformCustomElement(project: Project, reporter: Reporter) {
       });
 
       if (customDeco) {
+        const loc = nodeLoc(customDeco);
         const expr = customDeco.getExpression();
         if (Node.isCallExpression(expr)) {
           const args = expr.getArguments();
           if (args.length === 0) {
             expr.replaceWithText(`${expr.getExpression().getText()}({ template: ${templateExpr} })`);
-            reporter.edit(sf.getFilePath(), `Updated @customElement on class ${cls.getName() || '(anonymous)'} to include template`);
+            reporter.edit(sf.getFilePath(), `Updated @customElement on class ${cls.getName() || '(anonymous)'} to include template`, undefined, undefined, { loc });
             touched = true;
           } else if (args.length === 1 && Node.isObjectLiteralExpression(args[0])) {
             const obj = args[0];
             const existing = obj.getProperty('template');
             if (existing) {
-              reporter.warn(sf.getFilePath(), `@customElement on class ${cls.getName() || '(anonymous)'} already has a template. Verify inlineView/noView migration.`);
+              reporter.warn(sf.getFilePath(), `@customElement on class ${cls.getName() || '(anonymous)'} already has a template. Verify inlineView/noView migration.`, { rule: 'custom-element/template-exists', loc });
             } else {
               obj.addPropertyAssignment({ name: 'template', initializer: templateExpr });
-              reporter.edit(sf.getFilePath(), `Added template to @customElement on class ${cls.getName() || '(anonymous)'}`);
+              reporter.edit(sf.getFilePath(), `Added template to @customElement on class ${cls.getName() || '(anonymous)'}`, undefined, undefined, { loc });
               touched = true;
             }
           } else if (args.length === 1) {
             const nameArg = args[0].getText();
             expr.replaceWithText(`${expr.getExpression().getText()}({ name: ${nameArg}, template: ${templateExpr} })`);
-            reporter.edit(sf.getFilePath(), `Converted @customElement('${nameArg}') to object form with template on class ${cls.getName() || '(anonymous)'}`);
+            reporter.edit(sf.getFilePath(), `Converted @customElement('${nameArg}') to object form with template on class ${cls.getName() || '(anonymous)'}`, undefined, undefined, { loc });
             touched = true;
           } else {
-            reporter.warn(sf.getFilePath(), `@customElement on class ${cls.getName() || '(anonymous)'} has unexpected arguments. Manual migration required.`);
+            reporter.warn(sf.getFilePath(), `@customElement on class ${cls.getName() || '(anonymous)'} has unexpected arguments. Manual migration required.`, { rule: 'custom-element/unexpected-arguments', loc });
           }
         } else {
           customDeco.replaceWithText(`${customDeco.getExpression().getText()}({ template: ${templateExpr} })`);
-          reporter.edit(sf.getFilePath(), `Updated @customElement on class ${cls.getName() || '(anonymous)'} to include template`);
+          reporter.edit(sf.getFilePath(), `Updated @customElement on class ${cls.getName() || '(anonymous)'} to include template`, undefined, undefined, { loc });
           touched = true;
         }
       } else {
+        const loc = nodeLoc(cls);
         cls.addDecorator({
           name: 'customElement',
           arguments: [`{ template: ${templateExpr} }`]
         });
-        reporter.add(sf.getFilePath(), `Added @customElement with template to class ${cls.getName() || '(anonymous)'}`);
+        reporter.add(sf.getFilePath(), `Added @customElement with template to class ${cls.getName() || '(anonymous)'}`, undefined, { loc });
         touched = true;
       }
     }
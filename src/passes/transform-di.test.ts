@@ -189,6 +189,176 @@ export class ServiceB {
     expect(tokenMatches).toHaveLength(1); // Should only generate one token
   });
 
+  it('generates one exported token next to the interface and imports it everywhere', () => {
+    const logger = project.createSourceFile('/src/logger.ts', `
+export interface ILogger {
+  log(message: string): void;
+}
+`);
+    const consumers = ['/src/a.ts', '/src/b.ts'].map(path => project.createSourceFile(path, `
+import { autoinject } from 'aurelia-framework';
+import { ILogger } from './logger';
+
+@autoinject
+export class Service {
+  constructor(private logger: ILogger) {}
+}
+`));
+
+    transformDI(project, reporter);
+
+    expect(logger.getFullText()).toContain(`export interface ILogger {
+  log(message: string): void;
+}
+
+export const ILoggerToken = DI.createInterface<ILogger>('ILogger');`);
+    expect(logger.getFullText()).toContain('import { DI } from "aurelia"');
+    for (const sf of consumers) {
+      const result = sf.getFullText();
+      expect(result).toContain("import { ILogger, ILoggerToken } from './logger';");
+      expect(result).toContain('logger: ILogger = resolve(ILoggerToken)');
+      expect(result).not.toContain('createInterface');
+    }
+    const warnings = reporter.finish().entries.filter(e => e.rule === 'di/generated-token');
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ file: '/src/logger.ts', loc: { line: 6, col: 1 } });
+  });
+
+  it('imports generated tokens with the extension style of the importing file', () => {
+    project.createSourceFile('/src/logger.ts', `
+export interface ILogger {
+  log(message: string): void;
+}
+`);
+    const sourceFile = project.createSourceFile('/src/services/service.ts', `
+import { autoinject } from 'aurelia-framework';
+import type { ILogger } from '../logger.js';
+import { Store } from './store.js';
+
+@autoinject
+export class Service {
+  constructor(private logger: ILogger, private store: Store) {}
+}
+`);
+
+    transformDI(project, reporter);
+
+    expect(sourceFile.getFullText()).toContain('import { ILoggerToken } from "../logger.js";');
+  });
+
+  it('keeps tokens of local interfaces in their own file', () => {
+    const logger = project.createSourceFile('/src/logger.ts', `
+import { autoinject } from 'aurelia-framework';
+
+interface ILogger {
+  log(message: string): void;
+}
+export type Logger = ILogger;
+
+@autoinject
+export class ConsoleLogger {
+  constructor(private inner: ILogger) {}
+}
+`);
+    const consumer = project.createSourceFile('/src/service.ts', `
+import { autoinject } from 'aurelia-framework';
+import { Logger } from './logger';
+
+@autoinject
+export class Service {
+  constructor(private logger: Logger) {}
+}
+`);
+
+    transformDI(project, reporter);
+
+    expect(logger.getFullText()).toContain(`}
+
+const ILoggerToken = DI.createInterface<ILogger>('ILogger');`);
+    expect(logger.getFullText()).toContain('inner: ILogger = resolve(ILoggerToken)');
+    expect(consumer.getFullText()).toContain('constructor(private logger: Logger) {}');
+    const warning = reporter.finish().entries.find(e => e.file === '/src/service.ts' && e.kind === 'warn')!;
+    expect(warning.rule).toBe('di/non-runtime-type');
+    expect(warning.message).toContain(`interface 'ILogger' is not exported from /src/logger.ts`);
+  });
+
+  it('reuses an exported DI.createInterface token for the interface', () => {
+    project.createSourceFile('/src/logger.ts', `
+import { DI } from 'aurelia';
+
+export interface ILogger {
+  log(message: string): void;
+}
+export const ILogger = DI.createInterface<ILogger>('ILogger');
+`);
+    const sourceFile = project.createSourceFile('/src/service.ts', `
+import { autoinject } from 'aurelia-framework';
+import type { ILogger } from './logger';
+
+@autoinject
+export class Service {
+  constructor(private logger: ILogger) {}
+}
+`);
+
+    transformDI(project, reporter);
+
+    const result = sourceFile.getFullText();
+    expect(result).toContain("import { ILogger } from './logger';");
+    expect(result).toContain('logger: ILogger = resolve(ILogger)');
+    expect(project.getSourceFileOrThrow('/src/logger.ts').getFullText()).not.toContain('ILoggerToken');
+    expect(reporter.finish().entries.some(e => e.rule === 'di/generated-token')).toBe(false);
+  });
+
+  it('only generates tokens in the migrated sources', () => {
+    project.createSourceFile('/src/logger.ts', `
+export interface ILogger {
+  log(message: string): void;
+}
+`);
+    const sourceFile = project.createSourceFile('/src/service.ts', `
+import { autoinject } from 'aurelia-framework';
+import { ILogger } from './logger';
+
+@autoinject
+export class Service {
+  constructor(private logger: ILogger) {}
+}
+`);
+
+    transformDI(project, reporter, new Set(['/src/service.ts']));
+
+    expect(sourceFile.getFullText()).toContain('constructor(private logger: ILogger) {}');
+    expect(project.getSourceFileOrThrow('/src/logger.ts').getFullText()).not.toContain('ILoggerToken');
+    const warning = reporter.finish().entries.find(e => e.kind === 'warn')!;
+    expect(warning.rule).toBe('di/non-runtime-type');
+    expect(warning.message).toContain(`interface 'ILogger' is declared in /src/logger.ts, which is not one of the migrated sources`);
+  });
+
+  it('leaves interfaces declared outside the project to be migrated manually', () => {
+    project.createSourceFile('/src/types.d.ts', `
+export interface IApi {
+  get(url: string): Promise<unknown>;
+}
+`);
+    const sourceFile = project.createSourceFile('/src/service.ts', `
+import { autoinject } from 'aurelia-framework';
+import { IApi } from './types';
+
+@autoinject
+export class Service {
+  constructor(private api: IApi) {}
+}
+`);
+
+    transformDI(project, reporter);
+
+    expect(sourceFile.getFullText()).toContain('constructor(private api: IApi) {}');
+    const warning = reporter.finish().entries.find(e => e.kind === 'warn')!;
+    expect(warning.rule).toBe('di/non-runtime-type');
+    expect(warning.message).toContain(`because interface 'IApi' is declared outside the project`);
+  });
+
   it('handles classes without @autoinject decorator', () => {
     const sourceFile = project.createSourceFile('test.ts', `
 export class MyService {
@@ -218,4 +388,349 @@ export class MyService {
     expect(result).not.toContain('@autoinject');
     expect(result).toContain('constructor() {}'); // Should keep empty constructor
   });
-});
\ No newline at end of file
+
+  describe('@inject', () => {
+    it('converts positional tokens and this assignments to resolve() fields', () => {
+      const sourceFile = project.createSourceFile('test.js', `
+import { inject } from 'aurelia-framework';
+import { HttpClient } from 'aurelia-fetch-client';
+import { EventAggregator } from 'aurelia-event-aggregator';
+
+@inject(HttpClient, EventAggregator)
+export class UserService {
+  constructor(http, ea) {
+    this.http = http;
+    this.events = ea;
+    this.cache = new Map();
+  }
+}
+`);
+
+      transformDI(project, reporter);
+
+      const result = sourceFile.getFullText();
+      expect(result).not.toContain('@inject');
+      expect(result).not.toMatch(/import \{[^}]*\binject\b/);
+      expect(result).toContain('import { resolve } from "aurelia"');
+      expect(result).toContain('http = resolve(HttpClient);');
+      expect(result).toContain('events = resolve(EventAggregator);');
+      expect(result).toContain(`constructor() {
+    this.cache = new Map();
+  }`);
+      const edits = reporter.finish().entries.filter(e => e.kind === 'edit').map(e => e.message);
+      expect(edits).toContain("Converted @inject(HttpClient) parameter 'http' to 'http = resolve(HttpClient)' on class UserService");
+      expect(edits).toContain('Removed @inject on class UserService');
+    });
+
+    it('keeps declared fields and parameter property modifiers', () => {
+      const sourceFile = project.createSourceFile('test.ts', `
+import { inject } from 'aurelia-framework';
+import { Router } from 'aurelia-router';
+import { Store } from './store';
+
+@inject(Router, Store)
+export class Shell {
+  private router: Router;
+  constructor(router: Router, private readonly store: Store) {
+    this.router = router;
+  }
+}
+`);
+
+      transformDI(project, reporter);
+
+      const result = sourceFile.getFullText();
+      expect(result).toContain('private router: Router = resolve(Router);');
+      expect(result).toContain('private readonly store: Store = resolve(Store);');
+      expect(result).toContain('constructor() {\n  }');
+    });
+
+    it('bails out when a parameter is used for anything else', () => {
+      const source = `
+import { inject } from 'aurelia-framework';
+
+@inject(HttpClient, Config)
+export class Api {
+  constructor(http, config) {
+    this.http = http;
+    http.configure(c => c.withBaseUrl(config.baseUrl));
+  }
+}
+`;
+      const sourceFile = project.createSourceFile('test.js', source);
+
+      transformDI(project, reporter);
+
+      expect(sourceFile.getFullText()).toBe(source);
+      const warning = reporter.finish().entries.find(e => e.rule === 'di/inject-manual')!;
+      expect(warning.message).toBe("@inject on class Api was not converted because parameter 'http' is used outside a this.x = http assignment. Replace it with resolve() manually.");
+      expect(warning.loc).toEqual({ line: 4, col: 1 });
+    });
+
+    it('bails out when tokens and parameters do not line up', () => {
+      project.createSourceFile('test.ts', `
+import { inject } from 'aurelia-framework';
+
+@inject(A, B)
+export class One {
+  constructor(private a: A) {}
+}
+
+@inject(A)
+export class Two {
+  constructor(a) {}
+}
+`);
+
+      transformDI(project, reporter);
+
+      const warnings = reporter.finish().entries.filter(e => e.rule === 'di/inject-manual').map(e => e.message);
+      expect(warnings).toEqual([
+        '@inject on class One was not converted because it lists 2 token(s) for 1 constructor parameter(s). Replace it with resolve() manually.',
+        "@inject on class Two was not converted because parameter 'a' is never stored on the instance. Replace it with resolve() manually."
+      ]);
+    });
+  });
+
+  describe('static inject', () => {
+    it('converts static inject arrays and methods to resolve() fields', () => {
+      const sourceFile = project.createSourceFile('test.js', `
+export class Orders {
+  static inject = [HttpClient];
+  constructor(http) {
+    this.http = http;
+  }
+}
+
+export class Cart {
+  static inject() { return [Store, EventAggregator]; }
+  constructor(store, ea) {
+    this.store = store;
+    this.ea = ea;
+  }
+}
+`);
+
+      transformDI(project, reporter);
+
+      const result = sourceFile.getFullText();
+      expect(result).not.toContain('static inject');
+      expect(result).toContain('http = resolve(HttpClient);');
+      expect(result).toContain('store = resolve(Store);');
+      expect(result).toContain('ea = resolve(EventAggregator);');
+      expect(result).toContain('import { resolve } from "aurelia"');
+      const edits = reporter.finish().entries.filter(e => e.kind === 'edit').map(e => e.message);
+      expect(edits).toEqual([
+        "Converted static inject HttpClient parameter 'http' to 'http = resolve(HttpClient)' on class Orders",
+        'Removed static inject on class Orders',
+        "Converted static inject Store parameter 'store' to 'store = resolve(Store)' on class Cart",
+        "Converted static inject EventAggregator parameter 'ea' to 'ea = resolve(EventAggregator)' on class Cart",
+        'Removed static inject on class Cart'
+      ]);
+    });
+
+    it('keeps a static inject array Aurelia 2 can read when the parameters are used', () => {
+      const sourceFile = project.createSourceFile('test.js', `
+export class Orders {
+  static inject = [HttpClient];
+  constructor(http) {
+    this.client = http.configure();
+  }
+}
+
+export class Cart {
+  static inject() {
+    return [Store];
+  }
+  constructor(store) {
+    store.subscribe(() => {});
+  }
+}
+`);
+
+      transformDI(project, reporter);
+
+      const result = sourceFile.getFullText();
+      expect(result).toContain('static inject = [HttpClient];\n  constructor(http)');
+      expect(result).toContain('static inject = [Store];\n  constructor(store)');
+      const entries = reporter.finish().entries;
+      expect(entries.filter(e => e.rule === 'di/static-inject-kept').map(e => [e.message, e.loc])).toEqual([
+        ["Kept static inject on class Orders because parameter 'http' is used outside a this.x = http assignment. Aurelia 2 reads static inject arrays, resolve() can replace it later.", { line: 3, col: 3 }],
+        ["Kept static inject on class Cart because parameter 'store' is used outside a this.x = store assignment. Aurelia 2 reads static inject arrays, resolve() can replace it later.", { line: 10, col: 3 }]
+      ]);
+      expect(entries.some(e => e.message === 'Rewrote static inject() on class Cart to static inject = [Store]')).toBe(true);
+    });
+
+    it('keeps dependency lists that are not array literals', () => {
+      project.createSourceFile('test.js', `
+export class Orders {
+  static inject = dependencies;
+  constructor(http) {
+    this.http = http;
+  }
+}
+`);
+
+      transformDI(project, reporter);
+
+      const note = reporter.finish().entries.find(e => e.rule === 'di/static-inject-kept')!;
+      expect(note.message).toContain('because its dependency list is not an array literal');
+    });
+  });
+
+  describe('resolvers', () => {
+    it('maps resolvers listed in @inject to v2 resolver functions', () => {
+      const sourceFile = project.createSourceFile('test.js', `
+import { inject, Lazy, All, Optional, Factory, NewInstance } from 'aurelia-framework';
+
+@inject(Lazy.of(Api), All.of(Plugin), Optional.of(Logger), Factory.of(Job), NewInstance.of(Form))
+export class Editor {
+  constructor(getApi, plugins, logger, createJob, form) {
+    this.getApi = getApi;
+    this.plugins = plugins;
+    this.logger = logger;
+    this.createJob = createJob;
+    this.form = form;
+  }
+}
+`);
+
+      transformDI(project, reporter);
+
+      const result = sourceFile.getFullText();
+      expect(result).toContain('getApi = resolve(lazy(Api));');
+      expect(result).toContain('plugins = resolve(all(Plugin));');
+      expect(result).toContain('logger = resolve(optional(Logger));');
+      expect(result).toContain('createJob = resolve(factory(Job));');
+      expect(result).toContain('form = resolve(newInstanceOf(Form));');
+      expect(result).toContain('import { resolve, lazy, all, optional, factory, newInstanceOf } from "aurelia"');
+      expect(result).not.toContain('aurelia-framework');
+    });
+
+    it('maps resolver parameter decorators', () => {
+      project.createSourceFile('services.ts', `
+export class Api {}
+export class Form {}
+`);
+      const sourceFile = project.createSourceFile('test.ts', `
+import { autoinject, lazy, all, optional, newInstance } from 'aurelia-framework';
+import { Api, Form } from './services';
+
+@autoinject
+export class Editor {
+  constructor(
+    @lazy(Api) private getApi: () => Api,
+    @all(IPlugin) private plugins: IPlugin[],
+    @optional() private api: Api,
+    @newInstance() private form: Form
+  ) {}
+}
+`);
+
+      transformDI(project, reporter);
+
+      const result = sourceFile.getFullText();
+      expect(result).toContain('private getApi: () => Api = resolve(lazy(Api));');
+      expect(result).toContain('private plugins: IPlugin[] = resolve(all(IPlugin));');
+      expect(result).toContain('private api: Api = resolve(optional(Api));');
+      expect(result).toContain('private form: Form = resolve(newInstanceOf(Form));');
+      expect(result).toContain('import { resolve, lazy, all, optional, newInstanceOf } from "aurelia"');
+      expect(result).not.toContain('aurelia-framework');
+      expect(reporter.finish().entries.filter(e => e.kind === 'warn')).toEqual([]);
+    });
+
+    it('reports resolver decorators on one line at their original locations', () => {
+      project.createSourceFile('services.ts', `export class Foo {}`);
+      project.createSourceFile('test.ts', `import { autoinject, lazy, optional, newInstance, factory } from 'aurelia-framework';
+import { Foo } from './services';
+
+@autoinject
+export class Editor {
+  constructor(@lazy(Foo) private a: () => Foo, @optional() private b: Foo, @newInstance() private c: Foo, @factory(Foo) private d: () => Foo) {}
+}
+`);
+
+      transformDI(project, reporter);
+
+      const edits = reporter.finish().entries.filter(e => e.message.startsWith('Converted resolver parameter property'));
+      expect(edits.map(e => e.loc)).toEqual([
+        { line: 6, col: 15 },
+        { line: 6, col: 48 },
+        { line: 6, col: 76 },
+        { line: 6, col: 107 }
+      ]);
+    });
+
+    it('flags resolvers without a v2 equivalent', () => {
+      project.createSourceFile('test.ts', `
+import { inject, parent, optional, Parent } from 'aurelia-framework';
+
+export class Child {
+  constructor(@parent private shell: Shell, @optional(false) private log: Logger) {}
+}
+
+@inject(Parent.of(Shell))
+export class Other {
+  constructor(shell) {
+    this.shell = shell;
+  }
+}
+`);
+
+      transformDI(project, reporter);
+
+      const entries = reporter.finish().entries;
+      expect(entries.filter(e => e.rule === 'di/resolver-manual').map(e => e.message)).toEqual([
+        "Skipped converting parameter property 'shell' on class Child because @parent: parent has no Aurelia 2 resolver. Migrate it manually.",
+        "Skipped converting parameter property 'log' on class Child because @optional: optional without checking the parent container has no Aurelia 2 resolver. Migrate it manually."
+      ]);
+      expect(entries.find(e => e.rule === 'di/inject-manual')!.message).toContain("'Parent.of(Shell)' cannot be converted: parent has no Aurelia 2 resolver");
+    });
+  });
+
+  it('records source locations for edits and warnings', () => {
+    project.createSourceFile('test.ts', `import { autoinject } from 'aurelia-framework';
+
+@autoinject
+export class MyService {
+  constructor(private thing: unknown) {}
+}
+`);
+
+    transformDI(project, reporter);
+
+    const entries = reporter.finish().entries;
+    expect(entries.find(e => e.message.startsWith('Removed @autoinject'))?.loc).toEqual({ line: 3, col: 1 });
+    expect(entries.find(e => e.kind === 'warn')?.loc).toEqual({ line: 5, col: 15 });
+  });
+
+  it('reports parameter properties on one line at their original locations', () => {
+    project.createSourceFile('test.ts', `import { autoinject } from 'aurelia-framework';
+import { Api } from './api';
+
+@autoinject
+export class First {
+  constructor(private readonly logger: ILogger, public other: ILogger, private api: Api) {}
+}
+
+@autoinject
+export class Second {
+  constructor(private api: Api, private extra: unknown) {}
+}
+
+interface ILogger {}
+`);
+    project.createSourceFile('api.ts', `export class Api {}`);
+
+    transformDI(project, reporter, new Set(['/test.ts']));
+
+    const entries = reporter.finish().entries.filter(e => e.rule === 'di/non-runtime-type' || e.message.startsWith('Converted'));
+    expect(entries.map(e => e.loc)).toEqual([
+      { line: 6, col: 15 },
+      { line: 6, col: 49 },
+      { line: 6, col: 72 },
+      { line: 11, col: 15 },
+      { line: 11, col: 33 }
+    ]);
+  });
+});
@@ -1,5 +1,7 @@
-import { Project, SyntaxKind, Decorator, ClassDeclaration, Node, SourceFile } from 'ts-morph';
-import { Reporter } from '../types.js';
+import * as path from 'node:path';
+import { Project, SyntaxKind, Decorator, ClassDeclaration, ExpressionStatement, GetAccessorDeclaration, InterfaceDeclaration, MethodDeclaration, Node, ParameterDeclaration, PropertyDeclaration, SourceFile, Type, VariableDeclarationKind } from 'ts-morph';
+import { Reporter, SourceLocation } from '../types.js';
+import { nodeLoc } from '../location.js';
 
 function ensureImport(sf: SourceFile, module: string, names: string[]) {
   const existing = sf.getImportDeclarations().find(i => i.getModuleSpecifierValue() === module);
@@ -41,28 +43,435 @@ function tokenNameForInterface(name: string) {
   return `${name}Token`;
 }
 
-export function transformDI(project: Project, reporter: Reporter) {
+function interfaceKey(iface: InterfaceDeclaration) {
+  return `${iface.getSourceFile().getFilePath()}#${iface.getName()}`;
+}
+
+function interfaceDeclaration(type: Type): InterfaceDeclaration | undefined {
+  return type.getSymbol()?.getDeclarations().find(Node.isInterfaceDeclaration);
+}
+
+interface InterfaceToken {
+  name: string;
+  file: SourceFile;
+  /** False for tokens of local interfaces, which only their own file can use. */
+  exported: boolean;
+}
+
+/**
+ * Exported `DI.createInterface<Foo>(...)` tokens anywhere in the project, keyed by the
+ * interface they are typed with, so every file resolves the same token.
+ */
+function findInterfaceTokens(project: Project): Map<string, InterfaceToken> {
+  const tokens = new Map<string, InterfaceToken>();
+  for (const sf of project.getSourceFiles()) {
+    for (const statement of sf.getVariableStatements()) {
+      if (!statement.isExported()) continue;
+      for (const decl of statement.getDeclarations()) {
+        const init = decl.getInitializer();
+        if (!Node.isCallExpression(init) || !/\bDI\.createInterface$/.test(init.getExpression().getText())) continue;
+        const [typeArg] = init.getTypeArguments();
+        const iface = typeArg && interfaceDeclaration(typeArg.getType());
+        if (iface && !tokens.has(interfaceKey(iface))) tokens.set(interfaceKey(iface), { name: decl.getName(), file: sf, exported: true });
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * The token to generate for an interface that has none, or the reason it cannot get one.
+ * Tokens go next to top-level interfaces declared in one of the migrated sources and are
+ * exported when the interface is.
+ */
+function plannedInterfaceToken(iface: InterfaceDeclaration, sourcePaths: ReadonlySet<string> | undefined): InterfaceToken | string {
+  const file = iface.getSourceFile();
+  if (file.isDeclarationFile() || file.isInNodeModules()) return `interface '${iface.getName()}' is declared outside the project`;
+  if (sourcePaths && !sourcePaths.has(file.getFilePath())) return `interface '${iface.getName()}' is declared in ${file.getFilePath()}, which is not one of the migrated sources`;
+  if (!Node.isSourceFile(iface.getParent())) return `interface '${iface.getName()}' is not declared at the top level of its file`;
+  return { name: tokenNameForInterface(iface.getName()), file, exported: iface.isExported() };
+}
+
+/**
+ * Add a token right after the interface declaration, exported along with the interface. An
+ * unexported token of the same name is used instead of adding a second one, and exported
+ * when the interface is.
+ */
+function addInterfaceToken(iface: InterfaceDeclaration, reporter: Reporter) {
+  const file = iface.getSourceFile();
+  const name = tokenNameForInterface(iface.getName());
+  const existing = file.getVariableDeclaration(name);
+  if (existing) {
+    if (!iface.isExported()) return;
+    existing.getVariableStatementOrThrow().setIsExported(true);
+    reporter.edit(file.getFilePath(), `Exported interface token '${name}' so other files can resolve it`, undefined, undefined, { loc: nodeLoc(existing) });
+    return;
+  }
+  const statement = file.insertVariableStatement(iface.getChildIndex() + 1, {
+    declarationKind: VariableDeclarationKind.Const,
+    declarations: [{
+      name,
+      initializer: `DI.createInterface<${iface.getName()}>('${iface.getName()}')`
+    }],
+    isExported: iface.isExported()
+  });
+  const loc = nodeLoc(statement);
+  reporter.add(file.getFilePath(), `Added interface token '${name}' for type '${iface.getName()}'`, undefined, { loc });
+  reporter.warn(file.getFilePath(), `Generated DI token '${name}' for interface '${iface.getName()}'. Confirm registrations match this token.`, { rule: 'di/generated-token', loc });
+  ensureImport(file, 'aurelia', ['DI']);
+}
+
+/**
+ * Local name for a token in `sf`, importing it from the file that declares it when needed.
+ * An import of the same name that is type-only (the interface and token share a name) is
+ * made a value import.
+ */
+function importToken(sf: SourceFile, token: InterfaceToken): string {
+  const { name, file } = token;
+  if (file.getFilePath() === sf.getFilePath()) return name;
+
+  const imports = sf.getImportDeclarations().filter(i => i.getModuleSpecifierSourceFile()?.getFilePath() === file.getFilePath());
+  for (const imp of imports) {
+    const named = imp.getNamedImports().find(ni => ni.getName() === name);
+    if (!named) continue;
+    if (named.isTypeOnly()) named.setIsTypeOnly(false);
+    if (imp.isTypeOnly()) imp.setIsTypeOnly(false);
+    return named.getAliasNode()?.getText() ?? name;
+  }
+  const target = imports.find(i => !i.isTypeOnly() && !i.getNamespaceImport());
+  if (target) {
+    target.addNamedImport(name);
+  } else {
+    sf.addImportDeclaration({ moduleSpecifier: relativeSpecifier(sf, file), namedImports: [name] });
+  }
+  return name;
+}
+
+/**
+ * Specifier for importing `file` into `sf`, written the way `sf` writes its other relative
+ * imports: with an extension when they have one (`./logger.js` in NodeNext and ESM
+ * projects), without one otherwise.
+ */
+function relativeSpecifier(sf: SourceFile, file: SourceFile): string {
+  const style = sf.getImportDeclarations()
+    .map(i => i.getModuleSpecifierValue())
+    .find(s => s.startsWith('.') && /\.[cm]?[jt]sx?$/.test(s));
+  if (!style) return sf.getRelativePathAsModuleSpecifierTo(file);
+  let specifier = path.posix.relative(path.posix.dirname(sf.getFilePath()), file.getFilePath());
+  if (!specifier.startsWith('.')) specifier = './' + specifier;
+  return /\.[cm]?tsx?$/.test(style) ? specifier : specifier.replace(/\.([cm]?)tsx?$/, '.$1js');
+}
+
+/**
+ * v1 resolvers and the v2 functions that replace them, keyed by decorator name. The
+ * `Lazy.of(...)` forms use the same table with the class name's first letter lowered.
+ * `null` means there is no v2 equivalent.
+ */
+const resolverFunctions = new Map<string, string | null>([
+  ['lazy', 'lazy'],
+  ['all', 'all'],
+  ['optional', 'optional'],
+  ['factory', 'factory'],
+  ['newInstance', 'newInstanceOf'],
+  ['parent', null]
+]);
+
+/**
+ * v1 DI names that can be dropped from imports once nothing references them.
+ */
+const v1InjectionNames = [
+  'autoinject', 'inject',
+  ...resolverFunctions.keys(),
+  ...Array.from(resolverFunctions.keys(), name => name[0].toUpperCase() + name.slice(1))
+];
+
+interface ResolvedToken {
+  /** Argument for resolve(), e.g. `lazy(Foo)`. */
+  text: string;
+  /** v2 resolver function to import, if any. */
+  resolver?: string;
+}
+
+function isKey(node: Node | undefined): boolean {
+  return Node.isIdentifier(node) || Node.isPropertyAccessExpression(node);
+}
+
+/**
+ * v2 form of a resolver: `fn(key)`. `key` falls back to `typeKey` for the resolvers that
+ * take the key from the parameter type in v1. Returns the reason when there is no
+ * faithful v2 form.
+ */
+function mapResolver(name: string, args: Node[], typeKey: string | undefined): ResolvedToken | string {
+  const resolver = resolverFunctions.get(name);
+  if (resolver === null) return `${name} has no Aurelia 2 resolver`;
+  const [first, ...rest] = args;
+  if (name === 'optional' && (first?.getText() === 'false' || rest[0]?.getText() === 'false')) {
+    return 'optional without checking the parent container has no Aurelia 2 resolver';
+  }
+  if (name === 'newInstance' && rest.length > 0) {
+    return 'newInstance with dynamic dependencies has no Aurelia 2 resolver';
+  }
+  const key = isKey(first)
+    ? first.getText()
+    : (name === 'optional' || name === 'newInstance') ? typeKey : undefined;
+  if (!key) return `${name} has no key to resolve`;
+  return { text: `${resolver}(${key})`, resolver };
+}
+
+/**
+ * Token listed in @inject or static inject: a class or token reference, or a resolver
+ * such as `Lazy.of(Foo)`.
+ */
+function injectionToken(arg: Node): ResolvedToken | string {
+  if (isKey(arg)) return { text: arg.getText() };
+  if (Node.isCallExpression(arg)) {
+    const callee = arg.getExpression();
+    if (Node.isPropertyAccessExpression(callee) && callee.getName() === 'of') {
+      const owner = callee.getExpression().getText();
+      const name = owner[0].toLowerCase() + owner.slice(1);
+      if (resolverFunctions.has(name)) {
+        const mapped = mapResolver(name, arg.getArguments(), undefined);
+        return typeof mapped === 'string' ? `'${arg.getText()}' cannot be converted: ${mapped}` : mapped;
+      }
+    }
+  }
+  return `'${arg.getText()}' is not a class, token or resolver reference`;
+}
+
+/**
+ * `lazy` in `resolve(lazy(Foo))`: the v2 function, which shares its name with the v1 decorator.
+ */
+function isResolverCall(id: Node): boolean {
+  const call = id.getParent();
+  const outer = call?.getParent();
+  return Node.isCallExpression(call) && call.getExpression() === id
+    && Node.isCallExpression(outer) && outer.getExpression().getText() === 'resolve';
+}
+
+/**
+ * Resolver decorator on a parameter, such as `@lazy(Foo)`. Undefined when there is none.
+ */
+function parameterResolver(param: ParameterDeclaration, typeKey: string | undefined): ResolvedToken | string | undefined {
+  const decorator = param.getDecorators().find(d => resolverFunctions.has(d.getName()));
+  if (!decorator) return undefined;
+  const mapped = mapResolver(decorator.getName(), decorator.getArguments(), typeKey);
+  return typeof mapped === 'string' ? `@${decorator.getName()}: ${mapped}` : mapped;
+}
+
+/**
+ * Fields an @inject parameter ends up in: the parameter property itself, or every
+ * `this.x = param;` statement at the top level of the constructor body.
+ */
+interface InjectedParameter {
+  token: ResolvedToken;
+  name: string;
+  parameterProperty: boolean;
+  fields: string[];
+  assignments: ExpressionStatement[];
+}
+
+/**
+ * Match each @inject argument to the constructor parameter at the same position. Returns
+ * the reason the class cannot be converted automatically instead when a parameter is
+ * used for anything other than being stored on `this`.
+ */
+function planInject(cls: ClassDeclaration, args: Node[]): InjectedParameter[] | string {
+  const ctor = cls.getConstructors()[0];
+  const params = ctor?.getParameters() ?? [];
+  if (args.length !== params.length) {
+    return `it lists ${args.length} token(s) for ${params.length} constructor parameter(s)`;
+  }
+  const body = ctor?.getBody();
+
+  const planned: InjectedParameter[] = [];
+  for (let i = 0; i < params.length; i++) {
+    const param = params[i];
+    const arg = args[i];
+    const name = param.getName();
+    const token = injectionToken(arg);
+    if (typeof token === 'string') return token;
+    if (param.isRestParameter() || param.hasInitializer() || !Node.isIdentifier(param.getNameNode())) {
+      return `parameter '${param.getText()}' is not a plain parameter`;
+    }
+
+    const fields: string[] = param.isParameterProperty() ? [name] : [];
+    const assignments: ExpressionStatement[] = [];
+    const uses = (body?.getDescendantsOfKind(SyntaxKind.Identifier) ?? []).filter(id => {
+      if (id.getText() !== name) return false;
+      const parent = id.getParent();
+      return !(Node.isPropertyAccessExpression(parent) && parent.getNameNode() === id);
+    });
+    for (const use of uses) {
+      const assignment = use.getParent();
+      const statement = assignment?.getParent();
+      const target = Node.isBinaryExpression(assignment) ? assignment.getLeft() : undefined;
+      if (Node.isBinaryExpression(assignment)
+        && assignment.getRight() === use
+        && assignment.getOperatorToken().getKind() === SyntaxKind.EqualsToken
+        && Node.isPropertyAccessExpression(target)
+        && target.getExpression().getKind() === SyntaxKind.ThisKeyword
+        && Node.isExpressionStatement(statement)
+        && statement.getParent() === body) {
+        fields.push(target.getName());
+        assignments.push(statement);
+      } else {
+        return `parameter '${name}' is used outside a this.x = ${name} assignment`;
+      }
+    }
+    if (fields.length === 0) {
+      return `parameter '${name}' is never stored on the instance`;
+    }
+    for (const field of fields) {
+      const existing = cls.getInstanceProperty(field);
+      if (existing && existing !== param && (!Node.isPropertyDeclaration(existing) || existing.hasInitializer())) {
+        return `field '${field}' already has a value`;
+      }
+    }
+    planned.push({ token, name, parameterProperty: param.isParameterProperty(), fields, assignments });
+  }
+  return planned;
+}
+
+/**
+ * Where a class lists its dependencies: `@inject(A, B)`, or in JS `static inject = [A, B]`
+ * and `static inject() { return [A, B]; }`. `tokens` is undefined when the list is not
+ * written out as an array literal.
+ */
+interface InjectDeclaration {
+  kind: 'decorator' | 'property' | 'method';
+  node: Decorator | PropertyDeclaration | MethodDeclaration | GetAccessorDeclaration;
+  tokens: Node[] | undefined;
+}
+
+function findInjectDeclaration(cls: ClassDeclaration): InjectDeclaration | undefined {
+  const decorator = cls.getDecorator('inject');
+  if (decorator) {
+    return { kind: 'decorator', node: decorator, tokens: decorator.getArguments() };
+  }
+  const member = cls.getStaticMember('inject');
+  if (Node.isPropertyDeclaration(member)) {
+    const list = member.getInitializer();
+    return { kind: 'property', node: member, tokens: Node.isArrayLiteralExpression(list) ? list.getElements() : undefined };
+  }
+  if (Node.isMethodDeclaration(member) || Node.isGetAccessorDeclaration(member)) {
+    const statements = member.getStatements();
+    const list = statements.length === 1 && Node.isReturnStatement(statements[0]) ? statements[0].getExpression() : undefined;
+    return { kind: 'method', node: member, tokens: Node.isArrayLiteralExpression(list) ? list.getElements() : undefined };
+  }
+  return undefined;
+}
+
+/**
+ * Locations of the class decorators, members and constructor parameters in a file, read
+ * before anything in it is edited. Converting one parameter inserts fields and removes the
+ * parameter, which moves every node after it.
+ */
+function originalLocations(sf: SourceFile): Map<Node, SourceLocation> {
+  const locs = new Map<Node, SourceLocation>();
+  for (const cls of sf.getClasses()) {
+    const params = cls.getConstructors().flatMap(c => c.getParameters());
+    for (const node of [...cls.getDecorators(), ...cls.getMembers(), ...params]) {
+      locs.set(node, nodeLoc(node));
+    }
+  }
+  return locs;
+}
+
+/**
+ * Rewrite injected constructor parameters to `resolve()` field initializers. When that is
+ * not possible a decorator is reported, while `static inject` is kept (or turned from a
+ * method into an array property) since Aurelia 2 reads it too. Returns undefined for
+ * classes without an inject declaration.
+ */
+function convertInject(sf: SourceFile, cls: ClassDeclaration, locs: Map<Node, SourceLocation>, reporter: Reporter): 'converted' | 'kept' | undefined {
+  const declaration = findInjectDeclaration(cls);
+  if (!declaration) return undefined;
+  const className = cls.getName() || '(anonymous)';
+  const source = declaration.kind === 'decorator' ? '@inject' : 'static inject';
+  const loc = locs.get(declaration.node) ?? nodeLoc(declaration.node);
+  const plan = declaration.tokens
+    ? planInject(cls, declaration.tokens)
+    : 'its dependency list is not an array literal';
+  if (typeof plan === 'string') {
+    if (declaration.kind === 'decorator') {
+      reporter.warn(sf.getFilePath(), `@inject on class ${className} was not converted because ${plan}. Replace it with resolve() manually.`, { rule: 'di/inject-manual', loc });
+      return 'kept';
+    }
+    if (declaration.kind === 'method' && declaration.tokens) {
+      const list = declaration.tokens.map(t => t.getText()).join(', ');
+      declaration.node.replaceWithText(`static inject = [${list}];`);
+      reporter.edit(sf.getFilePath(), `Rewrote static inject() on class ${className} to static inject = [${list}]`, undefined, undefined, { loc });
+    }
+    reporter.note(sf.getFilePath(), `Kept static inject on class ${className} because ${plan}. Aurelia 2 reads static inject arrays, resolve() can replace it later.`, { rule: 'di/static-inject-kept', loc });
+    return 'kept';
+  }
+
+  const ctor = cls.getConstructors()[0];
+  let index = 0;
+  const imports = new Set(['resolve']);
+  for (const injected of plan) {
+    const token = injected.token.text;
+    if (injected.token.resolver) imports.add(injected.token.resolver);
+    const param = ctor.getParameterOrThrow(injected.name);
+    const paramLoc = locs.get(param) ?? nodeLoc(param);
+    const type = param.getTypeNode()?.getText();
+    const label = declaration.kind === 'decorator' ? `@inject(${token})` : `static inject ${token}`;
+    for (const field of injected.fields) {
+      const existing = cls.getInstanceProperty(field);
+      if (Node.isPropertyDeclaration(existing)) {
+        existing.setInitializer(`resolve(${token})`);
+      } else {
+        cls.insertProperty(index++, {
+          name: field,
+          scope: injected.parameterProperty && field === injected.name ? param.getScope() : undefined,
+          isReadonly: injected.parameterProperty && field === injected.name && param.isReadonly(),
+          type,
+          initializer: `resolve(${token})`
+        });
+      }
+      reporter.edit(sf.getFilePath(), `Converted ${label} parameter '${injected.name}' to '${field} = resolve(${token})' on class ${className}`, undefined, undefined, { loc: paramLoc });
+    }
+    injected.assignments.forEach(s => s.remove());
+    param.remove();
+  }
+  declaration.node.remove();
+  reporter.edit(sf.getFilePath(), `Removed ${source} on class ${className}`, undefined, undefined, { loc });
+  ensureImport(sf, 'aurelia', Array.from(imports));
+  return 'converted';
+}
+
+/**
+ * Only files in `sourcePaths` are changed when it is given, other project files are there
+ * for type information.
+ */
+export function transformDI(project: Project, reporter: Reporter, sourcePaths?: ReadonlySet<string>) {
   const aureliaV1Modules = [
     'aurelia-framework',
     'aurelia-dependency-injection',
     'aurelia-binding'
   ];
 
+  const interfaceTokens = findInterfaceTokens(project);
+  // Tokens are added once every file is converted so reported locations match the original source
+  const missingTokens = new Map<string, InterfaceDeclaration>();
+
   for (const sf of project.getSourceFiles()) {
+    if (sourcePaths && !sourcePaths.has(sf.getFilePath())) continue;
     let touched = false;
-
-    // Remove autoinject from imports
-    for (const mod of aureliaV1Modules) {
-      removeNamedImports(sf, mod, new Set(['autoinject']));
-    }
+    const locs = originalLocations(sf);
 
     // Remove class-level @autoinject and convert parameter properties
     for (const cls of sf.getClasses()) {
+      const inject = convertInject(sf, cls, locs, reporter);
+      if (inject) touched = true;
+      if (inject === 'kept') continue;
+
       const autoDecorators = cls.getDecorators().filter(d => d.getName() === 'autoinject');
       if (autoDecorators.length > 0) {
+        const loc = locs.get(autoDecorators[0]) ?? nodeLoc(autoDecorators[0]);
         autoDecorators.forEach(d => d.remove());
         touched = true;
-        reporter.edit(sf.getFilePath(), `Removed @autoinject on class ${cls.getName() || '(anonymous)'}`);
+        reporter.edit(sf.getFilePath(), `Removed @autoinject on class ${cls.getName() || '(anonymous)'}`, undefined, undefined, { loc });
       }
 
       const ctor = cls.getConstructors()[0];
@@ -73,10 +482,11 @@ export function transformDI(project: Project, reporter: Reporter) {
 
       // Add imports for resolve as needed
       let needResolve = false;
-      let needDI = false;
+      const resolvers = new Set<string>();
 
       for (const p of params) {
         const name = p.getName();
+        const loc = locs.get(p) ?? nodeLoc(p);
         const typeNode = p.getTypeNode();
         const type = p.getType();
         const typeText = typeNode ? typeNode.getText() : null;
@@ -88,6 +498,28 @@ export function transformDI(project: Project, reporter: Reporter) {
         const isInterface = type.isInterface();
         const isAnonymous = type.isAnonymous() && !typeText;
 
+        // Resolver decorators decide what is injected, whatever the type says
+        const resolver = parameterResolver(p, isClass && typeText ? typeText : undefined);
+        if (typeof resolver === 'string') {
+          reporter.warn(sf.getFilePath(), `Skipped converting parameter property '${name}' on class ${cls.getName() || '(anonymous)'} because ${resolver}. Migrate it manually.`, { rule: 'di/resolver-manual', loc });
+          continue;
+        }
+        if (resolver) {
+          cls.insertProperty(0, {
+            name,
+            scope: p.getScope(),
+            isReadonly: p.getReadonlyKeyword() !== undefined,
+            type: typeText ?? undefined,
+            initializer: `resolve(${resolver.text})`
+          });
+          reporter.edit(sf.getFilePath(), `Converted resolver parameter property '${name}' to 'resolve(${resolver.text})' on class ${cls.getName() || '(anonymous)'}`, undefined, undefined, { loc });
+          p.remove();
+          if (resolver.resolver) resolvers.add(resolver.resolver);
+          needResolve = true;
+          touched = true;
+          continue;
+        }
+
         if (isClass && typeText) {
           // Convert to class property with resolve(TypeName)
           cls.insertProperty(0, {
@@ -97,27 +529,33 @@ export function transformDI(project: Project, reporter: Reporter) {
             type: typeText,
             initializer: `resolve(${typeText})`
           });
-          reporter.edit(sf.getFilePath(), `Converted parameter property '${name}: ${typeText}' to 'resolve(${typeText})' on class ${cls.getName() || '(anonymous)'}`);
+          reporter.edit(sf.getFilePath(), `Converted parameter property '${name}: ${typeText}' to 'resolve(${typeText})' on class ${cls.getName() || '(anonymous)'}`, undefined, undefined, { loc });
           p.remove();
           needResolve = true;
           touched = true;
         } else if (isInterface && typeText) {
-          // Generate a DI token at file level
-          const tokenConst = tokenNameForInterface(typeText.replace(/<.*>/, ''));
-          const hasToken = !!sf.getVariableDeclaration(tokenConst);
-          if (!hasToken) {
-            sf.insertVariableStatement(0, {
-              declarationKind: 'const' as any,
-              declarations: [{
-                name: tokenConst,
-                initializer: `DI.createInterface<${typeText}>('${typeText}')`
-              }],
-              isExported: false
-            });
-            reporter.add(sf.getFilePath(), `Added interface token '${tokenConst}' for type '${typeText}'`);
-            needDI = true;
-            touched = true;
+          // One exported token per interface, shared by every file that injects it
+          const iface = interfaceDeclaration(type)!;
+          const key = interfaceKey(iface);
+          let token = interfaceTokens.get(key);
+          const generated = !token || missingTokens.has(key);
+          if (!token) {
+            const result = plannedInterfaceToken(iface, sourcePaths);
+            if (typeof result === 'string') {
+              reporter.warn(sf.getFilePath(), `Skipped converting parameter property '${name}: ${typeText}' on class ${cls.getName() || '(anonymous)'} because ${result}. Export a DI.createInterface token for it and resolve that.`, { rule: 'di/non-runtime-type', loc });
+              continue;
+            }
+            token = result;
+          }
+          if (!token.exported && token.file !== sf) {
+            reporter.warn(sf.getFilePath(), `Skipped converting parameter property '${name}: ${typeText}' on class ${cls.getName() || '(anonymous)'} because interface '${iface.getName()}' is not exported from ${token.file.getFilePath()}. Export a DI.createInterface token for it and resolve that.`, { rule: 'di/non-runtime-type', loc });
+            continue;
           }
+          if (!interfaceTokens.has(key)) {
+            interfaceTokens.set(key, token);
+            missingTokens.set(key, iface);
+          }
+          const tokenConst = importToken(sf, token);
           cls.insertProperty(0, {
             name,
             scope: p.getScope(),
@@ -125,37 +563,45 @@ export function transformDI(project: Project, reporter: Reporter) {
             type: typeText,
             initializer: `resolve(${tokenConst})`
           });
-          reporter.edit(sf.getFilePath(), `Converted parameter property '${name}: ${typeText}' to 'resolve(${tokenConst})' on class ${cls.getName() || '(anonymous)'} (generated token)`);
+          reporter.edit(sf.getFilePath(), `Converted parameter property '${name}: ${typeText}' to 'resolve(${tokenConst})' on class ${cls.getName() || '(anonymous)'}${generated ? ' (generated token)' : ''}`, undefined, undefined, { loc });
           p.remove();
           needResolve = true;
           touched = true;
-          reporter.warn(sf.getFilePath(), `Generated DI token '${tokenConst}' for interface '${typeText}'. Confirm registrations match this token.`);
         } else {
           // Skip, leave as is, note for manual work
-          reporter.warn(sf.getFilePath(), `Skipped converting parameter property '${name}${typeText ? ': ' + typeText : ''}' on class ${cls.getName() || '(anonymous)'} due to non-runtime type. Replace with resolve(...) or @inject manually.`);
+          reporter.warn(sf.getFilePath(), `Skipped converting parameter property '${name}${typeText ? ': ' + typeText : ''}' on class ${cls.getName() || '(anonymous)'} due to non-runtime type. Replace with resolve(...) or @inject manually.`, { rule: 'di/non-runtime-type', loc });
         }
       }
 
       // If constructor is now empty parameter list and empty body, leave it as is
       if (needResolve) {
-        ensureImport(sf, 'aurelia', ['resolve']);
-      }
-      if (needDI) {
-        ensureImport(sf, 'aurelia', ['DI', 'resolve']);
+        ensureImport(sf, 'aurelia', ['resolve', ...resolvers]);
       }
     }
 
+    // Remove v1 DI names nothing references anymore from imports. Done after the classes so reported locations match the original source.
+    const referenced = new Set(sf.getDescendantsOfKind(SyntaxKind.Identifier)
+      .filter(id => !id.getFirstAncestorByKind(SyntaxKind.ImportDeclaration) && !isResolverCall(id))
+      .map(id => id.getText()));
+    for (const mod of aureliaV1Modules) {
+      removeNamedImports(sf, mod, new Set(v1InjectionNames.filter(name => !referenced.has(name))));
+    }
+
     if (touched) {
       // Remove v1 only imports if they are now empty
       for (const mod of aureliaV1Modules) {
         for (const imp of [...sf.getImportDeclarations()]) {
           if (imp.getModuleSpecifierValue() !== mod) continue;
           if (imp.getNamedImports().length === 0 && !imp.getDefaultImport() && !imp.getNamespaceImport()) {
+            const loc = nodeLoc(imp);
             imp.remove();
-            reporter.remove(sf.getFilePath(), `Removed empty import '${mod}'`);
+            reporter.remove(sf.getFilePath(), `Removed empty import '${mod}'`, undefined, { loc });
           }
         }
       }
     }
   }
+  for (const iface of missingTokens.values()) {
+    addInterfaceToken(iface, reporter);
+  }
 }
@@ -85,6 +85,22 @@ export class MyComponent {
     expect(warnings.some(w => w.message.includes('has bind() but no unbind()'))).toBe(true);
   });
 
+  it('tags findings with rule IDs that severity overrides apply to', () => {
+    reporter = new Reporter({}, { 'lifecycle/attached-without-detached': 'off', 'lifecycle/bind-without-unbind': 'note' });
+    project.createSourceFile('test.ts', `
+export class MyComponent {
+  attached() {}
+  bind() {}
+}
+`);
+
+    transformLifecycle(project, reporter);
+
+    const entries = reporter.finish().entries;
+    expect(entries.some(e => e.rule === 'lifecycle/attached-without-detached')).toBe(false);
+    expect(entries.find(e => e.rule === 'lifecycle/bind-without-unbind')?.kind).toBe('note');
+  });
+
   it('warns about router lifecycle methods', () => {
     const sourceFile = project.createSourceFile('test.ts', `
 export class MyViewModel {
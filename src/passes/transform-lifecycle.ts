@@ -1,5 +1,6 @@
-import { Project, SyntaxKind, MethodDeclaration, Node } from 'ts-morph';
+import { Project, SyntaxKind, MethodDeclaration, Node, ClassDeclaration } from 'ts-morph';
 import { Reporter } from '../types.js';
+import { nodeLoc } from '../location.js';
 
 /**
  * Transforms Aurelia 1 lifecycle method names to Aurelia 2 equivalents
@@ -41,6 +42,7 @@ export function transformLifecycle(project: Project, reporter: Reporter) {
         // Check if this is a lifecycle method that needs renaming
         if (lifecycleMethodRenames.has(methodName)) {
           const newName = lifecycleMethodRenames.get(methodName)!;
+          const loc = nodeLoc(method.getNameNode());
           
           method.rename(newName);
           touched = true;
@@ -50,7 +52,8 @@ export function transformLifecycle(project: Project, reporter: Reporter) {
             sf.getFilePath(),
             `Renamed lifecycle method '${methodName}()' to '${newName}()' in class ${className}`,
             `${methodName}()`,
-            `${newName}()`
+            `${newName}()`,
+            { loc }
           );
         }
 
@@ -65,7 +68,8 @@ export function transformLifecycle(project: Project, reporter: Reporter) {
           if (!isAsync && returnType?.getText().includes('Promise')) {
             reporter.warn(
               sf.getFilePath(),
-              `Lifecycle method '${methodName}()' in class ${className} returns Promise but is not async. Aurelia 2 has native async support - consider making it async.`
+              `Lifecycle method '${methodName}()' in class ${className} returns Promise but is not async. Aurelia 2 has native async support - consider making it async.`,
+              { rule: 'lifecycle/promise-not-async', loc: nodeLoc(method.getNameNode()) }
             );
           }
         }
@@ -82,9 +86,10 @@ export function transformLifecycle(project: Project, reporter: Reporter) {
 /**
  * Analyze lifecycle patterns and provide migration guidance
  */
-function analyzeLifecyclePatterns(cls: any, reporter: Reporter, filePath: string, className: string) {
+function analyzeLifecyclePatterns(cls: ClassDeclaration, reporter: Reporter, filePath: string, className: string) {
   const methods = cls.getMethods();
-  const methodNames = methods.map((m: any) => m.getName());
+  const methodNames = methods.map(m => m.getName());
+  const methodLoc = (name: string) => nodeLoc(cls.getMethodOrThrow(name).getNameNode());
 
   // Check for common patterns that need updating
   
@@ -92,7 +97,8 @@ function analyzeLifecyclePatterns(cls: any, reporter: Reporter, filePath: string
   if (methodNames.includes('attached') && !methodNames.includes('detached')) {
     reporter.warn(
       filePath,
-      `Class ${className} has attached() but no detached(). Consider if cleanup is needed in detached() for Aurelia 2.`
+      `Class ${className} has attached() but no detached(). Consider if cleanup is needed in detached() for Aurelia 2.`,
+      { rule: 'lifecycle/attached-without-detached', loc: methodLoc('attached') }
     );
   }
 
@@ -100,7 +106,8 @@ function analyzeLifecyclePatterns(cls: any, reporter: Reporter, filePath: string
   if (methodNames.includes('bind') && !methodNames.includes('unbind') && !methodNames.includes('unbinding')) {
     reporter.warn(
       filePath,
-      `Class ${className} has bind() but no unbind()/unbinding(). Consider if cleanup is needed.`
+      `Class ${className} has bind() but no unbind()/unbinding(). Consider if cleanup is needed.`,
+      { rule: 'lifecycle/bind-without-unbind', loc: methodLoc('bind') }
     );
   }
 
@@ -112,7 +119,8 @@ function analyzeLifecyclePatterns(cls: any, reporter: Reporter, filePath: string
   if (routerMethods.length > 0) {
     reporter.warn(
       filePath,
-      `Class ${className} uses router lifecycle methods (${routerMethods.join(', ')}). These work differently in Aurelia 2's new router - review router migration guide.`
+      `Class ${className} uses router lifecycle methods (${routerMethods.join(', ')}). These work differently in Aurelia 2's new router - review router migration guide.`,
+      { rule: 'lifecycle/router-hooks', loc: methodLoc(routerMethods[0]) }
     );
   }
 
@@ -120,7 +128,8 @@ function analyzeLifecyclePatterns(cls: any, reporter: Reporter, filePath: string
   if (methodNames.includes('attached') && methodNames.includes('bind')) {
     reporter.note(
       filePath,
-      `Class ${className} has both bind() and attached(). In Aurelia 2, the lifecycle order is more predictable: binding → bound → attaching → attached.`
+      `Class ${className} has both bind() and attached(). In Aurelia 2, the lifecycle order is more predictable: binding → bound → attaching → attached.`,
+      { rule: 'lifecycle/bind-and-attached', loc: methodLoc('bind') }
     );
   }
 }
@@ -141,7 +150,8 @@ export function suggestNewLifecycleHooks(project: Project, reporter: Reporter) {
       if (methodNames.includes('bind') && !methodNames.includes('bound')) {
         reporter.note(
           sf.getFilePath(),
-          `Class ${className} has bind(). Consider using the new bound() lifecycle hook for work that needs to happen after binding is complete.`
+          `Class ${className} has bind(). Consider using the new bound() lifecycle hook for work that needs to happen after binding is complete.`,
+          { rule: 'lifecycle/suggest-bound', loc: nodeLoc(cls.getMethodOrThrow('bind').getNameNode()) }
         );
       }
 
@@ -149,7 +159,8 @@ export function suggestNewLifecycleHooks(project: Project, reporter: Reporter) {
       if (methodNames.includes('attached') && !methodNames.includes('attaching')) {
         reporter.note(
           sf.getFilePath(),
-          `Class ${className} has attached(). Consider using the new attaching() lifecycle hook for work that needs to happen before DOM attachment.`
+          `Class ${className} has attached(). Consider using the new attaching() lifecycle hook for work that needs to happen before DOM attachment.`,
+          { rule: 'lifecycle/suggest-attaching', loc: nodeLoc(cls.getMethodOrThrow('attached').getNameNode()) }
         );
       }
     }
@@ -177,7 +188,8 @@ export function detectLifecycleAntiPatterns(project: Project, reporter: Reporter
             bindText.includes('scrollTo')) {
           reporter.warn(
             sf.getFilePath(),
-            `Class ${className} appears to do DOM manipulation in bind(). Consider moving DOM work to attached() or the new attaching() hook.`
+            `Class ${className} appears to do DOM manipulation in bind(). Consider moving DOM work to attached() or the new attaching() hook.`,
+            { rule: 'lifecycle/dom-in-bind', loc: nodeLoc(bindMethod.getNameNode()) }
           );
         }
       }
@@ -197,7 +209,8 @@ export function detectLifecycleAntiPatterns(project: Project, reporter: Reporter
             attachedText.includes('addEventListener')) {
           reporter.warn(
             sf.getFilePath(),
-            `Class ${className} sets up async operations or event listeners in attached() but has no detached() for cleanup. This can cause memory leaks.`
+            `Class ${className} sets up async operations or event listeners in attached() but has no detached() for cleanup. This can cause memory leaks.`,
+            { rule: 'lifecycle/attached-without-cleanup', loc: nodeLoc(attachedMethod.getNameNode()) }
           );
         }
       }
@@ -1,5 +1,6 @@
 import { Project, SyntaxKind, CallExpression } from 'ts-morph';
-import { Reporter } from '../types.js';
+import { Reporter, SourceLocation } from '../types.js';
+import { nodeLoc, textLoc } from '../location.js';
 
 /**
  * Removes PLATFORM.moduleName() calls which are no longer needed in Aurelia 2
@@ -19,6 +20,7 @@ export function transformPlatform(project: Project, reporter: Reporter) {
   for (const sf of project.getSourceFiles()) {
     let touched = false;
     let platformCallsRemoved = 0;
+    let firstLoc: SourceLocation | undefined;
 
     // Find and transform PLATFORM.moduleName() calls
     const callExpressions = sf.getDescendantsOfKind(SyntaxKind.CallExpression);
@@ -27,6 +29,7 @@ export function transformPlatform(project: Project, reporter: Reporter) {
       // Check if this is PLATFORM.moduleName()
       if (isPlatformModuleNameCall(callExpr)) {
         const args = callExpr.getArguments();
+        const loc = nodeLoc(callExpr);
         
         if (args.length === 1) {
           const moduleNameArg = args[0];
@@ -36,19 +39,22 @@ export function transformPlatform(project: Project, reporter: Reporter) {
           callExpr.replaceWithText(moduleNameText);
           
           platformCallsRemoved++;
+          firstLoc = firstLoc ?? loc;
           touched = true;
           
           reporter.edit(
             sf.getFilePath(), 
             `Removed PLATFORM.moduleName() call`,
             `PLATFORM.moduleName(${moduleNameText})`,
-            moduleNameText
+            moduleNameText,
+            { loc }
           );
         } else {
           // Warn about unexpected PLATFORM.moduleName usage
           reporter.warn(
             sf.getFilePath(),
-            `PLATFORM.moduleName() call with ${args.length} arguments needs manual review`
+            `PLATFORM.moduleName() call with ${args.length} arguments needs manual review`,
+            { rule: 'platform/module-name-arguments', loc }
           );
         }
       }
@@ -60,7 +66,10 @@ export function transformPlatform(project: Project, reporter: Reporter) {
       
       reporter.edit(
         sf.getFilePath(),
-        `Removed ${platformCallsRemoved} PLATFORM.moduleName() call${platformCallsRemoved === 1 ? '' : 's'}`
+        `Removed ${platformCallsRemoved} PLATFORM.moduleName() call${platformCallsRemoved === 1 ? '' : 's'}`,
+        undefined,
+        undefined,
+        { loc: firstLoc }
       );
     }
   }
@@ -111,11 +120,15 @@ function removePlatformImportsIfUnused(sf: any, reporter: Reporter) {
         // Remove PLATFORM from named imports
         for (const namedImport of [...namedImports]) {
           if (namedImport.getName() === 'PLATFORM') {
+            const loc = nodeLoc(namedImport);
             namedImport.remove();
             removedPlatform = true;
             reporter.edit(
               sf.getFilePath(),
-              `Removed unused PLATFORM import from ${moduleName}`
+              `Removed unused PLATFORM import from ${moduleName}`,
+              undefined,
+              undefined,
+              { loc }
             );
           }
         }
@@ -126,11 +139,13 @@ function removePlatformImportsIfUnused(sf: any, reporter: Reporter) {
             !imp.getDefaultImport() && 
             !imp.getNamespaceImport()) {
           const importText = imp.getText(); // Get text before removing
+          const loc = nodeLoc(imp);
           imp.remove();
           reporter.remove(
             sf.getFilePath(),
             `Removed empty import declaration for ${moduleName}`,
-            importText
+            importText,
+            { loc }
           );
         }
       }
@@ -158,7 +173,8 @@ export function analyzePlatformUsage(project: Project, reporter: Reporter) {
       if (sourceText.includes(method)) {
         reporter.warn(
           sf.getFilePath(),
-          `Found ${method} - this PLATFORM method needs manual migration to Aurelia 2 equivalents`
+          `Found ${method} - this PLATFORM method needs manual migration to Aurelia 2 equivalents`,
+          { rule: 'platform/manual-method', loc: textLoc(sf, method) }
         );
       }
     }
@@ -167,7 +183,8 @@ export function analyzePlatformUsage(project: Project, reporter: Reporter) {
     if (sourceText.includes('PLATFORM.DOM')) {
       reporter.warn(
         sf.getFilePath(),
-        'Found PLATFORM.DOM - migrate to native DOM APIs or @aurelia/dom package'
+        'Found PLATFORM.DOM - migrate to native DOM APIs or @aurelia/dom package',
+        { rule: 'platform/dom', loc: textLoc(sf, 'PLATFORM.DOM') }
       );
     }
   }
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Project } from 'ts-morph';
+import { transformRegistration } from './transform-registration';
+import { Reporter } from '../types.js';
+
+describe('transformRegistration', () => {
+  let project: Project;
+  let reporter: Reporter;
+
+  beforeEach(() => {
+    project = new Project({
+      compilerOptions: { strict: false },
+      useInMemoryFileSystem: true
+    });
+    reporter = new Reporter({});
+  });
+
+  it('rewrites container registrations to Registration helpers', () => {
+    const sourceFile = project.createSourceFile('main.ts', `
+export function configure(config) {
+  config.container.registerInstance(AppConfig, settings);
+  config.container.registerInstance(Clock);
+  config.container.registerSingleton(IStore, LocalStore);
+  config.container.registerTransient(Job);
+  config.container.registerAlias(LocalStore, 'store');
+}
+`);
+
+    transformRegistration(project, reporter);
+
+    const result = sourceFile.getFullText();
+    expect(result).toContain('config.container.register(Registration.instance(AppConfig, settings));');
+    expect(result).toContain('config.container.register(Registration.instance(Clock, Clock));');
+    expect(result).toContain('config.container.register(Registration.singleton(IStore, LocalStore));');
+    expect(result).toContain('config.container.register(Registration.transient(Job, Job));');
+    expect(result).toContain("config.container.register(Registration.aliasTo(LocalStore, 'store'));");
+    expect(result).toContain('import { Registration } from "aurelia"');
+    const edit = reporter.finish().entries.find(e => e.kind === 'edit')!;
+    expect(edit).toMatchObject({
+      message: 'registerInstance() -> register(Registration.instance())',
+      before: 'config.container.registerInstance(AppConfig, settings)',
+      after: 'config.container.register(Registration.instance(AppConfig, settings))',
+      loc: { line: 3, col: 3 }
+    });
+  });
+
+  it('converts registerHandler to a callback and flags the signature change', () => {
+    const sourceFile = project.createSourceFile('setup.ts', `
+import { Container } from 'aurelia-dependency-injection';
+
+const c = new Container();
+c.registerHandler(Api, (container, key) => container.get(ApiFactory).create(key));
+`);
+
+    transformRegistration(project, reporter);
+
+    expect(sourceFile.getFullText()).toContain('c.register(Registration.callback(Api, (container, key) => container.get(ApiFactory).create(key)));');
+    const warning = reporter.finish().entries.find(e => e.kind === 'warn')!;
+    expect(warning.rule).toBe('registration/handler-signature');
+  });
+
+  it('leaves lookalike methods alone outside Aurelia files', () => {
+    const source = `
+export function setup(registry) {
+  registry.registerInstance('a', 1);
+}
+`;
+    const sourceFile = project.createSourceFile('other.ts', source);
+
+    transformRegistration(project, reporter);
+
+    expect(sourceFile.getFullText()).toBe(source);
+  });
+
+  it('reports containers from other DI libraries instead of rewriting them', () => {
+    const source = `
+import { container } from 'tsyringe';
+
+container.registerSingleton(Api);
+
+export function configure(config) {
+  const container = config.container;
+  container.registerInstance(Clock);
+}
+`;
+    const sourceFile = project.createSourceFile('di.ts', source);
+
+    transformRegistration(project, reporter);
+
+    expect(sourceFile.getFullText()).toBe(source);
+    const warnings = reporter.finish().entries;
+    expect(warnings.map(w => [w.kind, w.rule, w.loc])).toEqual([
+      ['warn', 'registration/unknown-container', { line: 4, col: 1 }],
+      ['warn', 'registration/unknown-container', { line: 8, col: 3 }]
+    ]);
+  });
+
+  it('only rewrites receivers that are provably v1 containers in Aurelia files', () => {
+    const sourceFile = project.createSourceFile('cache.ts', `
+import { autoinject, Container } from 'aurelia-framework';
+
+@autoinject
+export class Cache {
+  constructor(private cache: LruCache, private container: Container) {}
+
+  warm() {
+    this.cache.registerInstance('a', 1);
+    this.container.registerInstance(Clock);
+    const child = this.container.createChild();
+    child.registerSingleton(Api);
+  }
+}
+`);
+
+    transformRegistration(project, reporter);
+
+    const result = sourceFile.getFullText();
+    expect(result).toContain("this.cache.registerInstance('a', 1);");
+    expect(result).toContain('this.container.register(Registration.instance(Clock, Clock));');
+    expect(result).toContain('child.register(Registration.singleton(Api, Api));');
+    const warnings = reporter.finish().entries.filter(e => e.kind === 'warn');
+    expect(warnings.map(w => [w.rule, w.loc])).toEqual([
+      ['registration/unknown-container', { line: 9, col: 5 }]
+    ]);
+  });
+
+  it('moves argument-less @singleton and @transient to the aurelia imports', () => {
+    const sourceFile = project.createSourceFile('services.ts', `
+import { singleton, transient, Container } from 'aurelia-dependency-injection';
+
+@singleton()
+export class Store {}
+
+@transient()
+export class Job {}
+`);
+
+    transformRegistration(project, reporter);
+
+    const result = sourceFile.getFullText();
+    expect(result).toContain("import { Container } from 'aurelia-dependency-injection';");
+    expect(result).toContain('import { singleton, transient } from "aurelia"');
+    expect(result).toContain('@singleton()\nexport class Store {}');
+    expect(reporter.finish().entries.map(e => e.message)).toEqual([
+      '@singleton() on class Store now imported from aurelia',
+      '@transient() on class Job now imported from aurelia'
+    ]);
+  });
+
+  it('flags lifetime decorators with v1 arguments and Container.instance', () => {
+    const sourceFile = project.createSourceFile('services.ts', `
+import { singleton, Container } from 'aurelia-framework';
+
+@singleton(true)
+export class Store {}
+
+@singleton()
+export class Cache {}
+
+export const api = Container.instance.get(Api);
+`);
+
+    transformRegistration(project, reporter);
+
+    expect(sourceFile.getFullText()).toContain("import { singleton, Container } from 'aurelia-framework';");
+    const warnings = reporter.finish().entries.filter(e => e.kind === 'warn');
+    expect(warnings.map(w => [w.rule, w.loc])).toEqual([
+      ['registration/container-instance', { line: 10, col: 20 }],
+      ['registration/lifetime-arguments', { line: 4, col: 1 }]
+    ]);
+  });
+});
@@ -0,0 +1,189 @@
+import { CallExpression, ClassDeclaration, Node, Project, SourceFile, SyntaxKind } from 'ts-morph';
+import { Reporter, SourceLocation } from '../types.js';
+import { nodeLoc } from '../location.js';
+
+const aureliaV1Modules = new Set(['aurelia-framework', 'aurelia-dependency-injection']);
+
+/**
+ * v1 container registration methods and the v2 Registration helper each one becomes.
+ */
+const registrationHelpers = new Map([
+  ['registerInstance', 'instance'],
+  ['registerSingleton', 'singleton'],
+  ['registerTransient', 'transient'],
+  ['registerHandler', 'callback'],
+  ['registerAlias', 'aliasTo']
+]);
+
+function ensureImport(sf: SourceFile, module: string, names: string[]) {
+  const existing = sf.getImportDeclarations().find(i => i.getModuleSpecifierValue() === module);
+  if (existing) {
+    const toAdd = new Set(names);
+    for (const ni of existing.getNamedImports()) {
+      toAdd.delete(ni.getName());
+    }
+    for (const name of toAdd) existing.addNamedImport(name);
+    return;
+  }
+  sf.addImportDeclaration({ moduleSpecifier: module, namedImports: names });
+}
+
+function removeNamedImports(sf: SourceFile, module: string, removeNames: Set<string>) {
+  for (const imp of sf.getImportDeclarations()) {
+    if (imp.getModuleSpecifierValue() !== module) continue;
+    let removed = false;
+    for (const ni of [...imp.getNamedImports()]) {
+      if (removeNames.has(ni.getName())) {
+        ni.remove();
+        removed = true;
+      }
+    }
+    if (removed) {
+      if (imp.getNamedImports().length === 0 && !imp.getDefaultImport() && !imp.getNamespaceImport()) {
+        imp.remove();
+      }
+    }
+  }
+}
+
+/**
+ * `x.registerInstance(...)` and friends.
+ */
+function registrationCalls(sf: SourceFile): CallExpression[] {
+  return sf.getDescendantsOfKind(SyntaxKind.CallExpression).filter(call => {
+    const callee = call.getExpression();
+    return Node.isPropertyAccessExpression(callee) && registrationHelpers.has(callee.getName());
+  });
+}
+
+/**
+ * `config.container` or `aurelia.container` where `config`/`aurelia` is a parameter of a
+ * `configure()` function, the v1 plugin and app entry points.
+ */
+function isConfigureContainer(receiver: Node): boolean {
+  if (!Node.isPropertyAccessExpression(receiver) || receiver.getName() !== 'container') return false;
+  const target = receiver.getExpression();
+  if (!Node.isIdentifier(target) || (target.getText() !== 'config' && target.getText() !== 'aurelia')) return false;
+  const fn = receiver.getFirstAncestor(Node.isFunctionLikeDeclaration);
+  if (!fn?.getParameters().some(p => p.getName() === target.getText())) return false;
+  const name = Node.isArrowFunction(fn) || Node.isFunctionExpression(fn)
+    ? fn.getParentIfKind(SyntaxKind.VariableDeclaration)?.getName()
+    : Node.isFunctionDeclaration(fn) || Node.isMethodDeclaration(fn) ? fn.getName() : undefined;
+  return name === 'configure';
+}
+
+/**
+ * Whether `receiver` is provably a v1 container: `config.container`/`aurelia.container` in
+ * `configure()`, a variable, parameter or property typed as the imported v1 `Container` or
+ * created with `new Container()`, or the `createChild()` of one of those.
+ */
+function isV1Container(receiver: Node, containerNames: Set<string>): boolean {
+  if (isConfigureContainer(receiver)) return true;
+  if (Node.isNewExpression(receiver)) return containerNames.has(receiver.getExpression().getText());
+  if (Node.isCallExpression(receiver)) {
+    const callee = receiver.getExpression();
+    return Node.isPropertyAccessExpression(callee) && callee.getName() === 'createChild' && isV1Container(callee.getExpression(), containerNames);
+  }
+  if (!Node.isIdentifier(receiver) && !Node.isPropertyAccessExpression(receiver)) return false;
+  return (receiver.getSymbol()?.getDeclarations() ?? []).some(decl => {
+    if (!Node.isVariableDeclaration(decl) && !Node.isParameterDeclaration(decl) && !Node.isPropertyDeclaration(decl)) return false;
+    const typeNode = decl.getTypeNode();
+    if (typeNode) return containerNames.has(typeNode.getText());
+    // Only initializers that create a container, not other values that may hold one
+    const init = decl.getInitializer();
+    return (Node.isNewExpression(init) || Node.isCallExpression(init)) && isV1Container(init, containerNames);
+  });
+}
+
+/**
+ * Rewrite v1 container registration calls to `container.register(Registration.*)`, move
+ * argument-less `@singleton()`/`@transient()` to the v2 decorators and flag
+ * `Container.instance`.
+ */
+export function transformRegistration(project: Project, reporter: Reporter) {
+  for (const sf of project.getSourceFiles()) {
+    const file = sf.getFilePath();
+    const v1Imports = sf.getImportDeclarations().filter(i => aureliaV1Modules.has(i.getModuleSpecifierValue()));
+    const locals = new Map<string, string>();
+    for (const imp of v1Imports) {
+      for (const ni of imp.getNamedImports()) {
+        locals.set(ni.getAliasNode()?.getText() ?? ni.getName(), ni.getName());
+      }
+    }
+    const containerNames = new Set(Array.from(locals).filter(([, name]) => name === 'Container').map(([local]) => local));
+    let needRegistration = false;
+
+    for (const access of sf.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression)) {
+      const target = access.getExpression();
+      if (access.getName() === 'instance' && Node.isIdentifier(target) && (locals.get(target.getText()) === 'Container' || target.getText() === 'Container')) {
+        reporter.warn(file, 'Container.instance is a v1 global with no v2 equivalent. Resolve IContainer with resolve(IContainer) or pass the container in.', { rule: 'registration/container-instance', loc: nodeLoc(access) });
+      }
+    }
+
+    // A decorator keeps its v1 import when any use of it in the file has arguments
+    const lifetimes = new Map<string, { cls: ClassDeclaration; args: string[]; loc: SourceLocation }[]>();
+    for (const cls of sf.getClasses()) {
+      for (const deco of cls.getDecorators()) {
+        const name = deco.getName();
+        if ((name !== 'singleton' && name !== 'transient') || locals.get(name) !== name) continue;
+        if (!lifetimes.has(name)) lifetimes.set(name, []);
+        lifetimes.get(name)!.push({ cls, args: deco.getArguments().map(a => a.getText()), loc: nodeLoc(deco) });
+      }
+    }
+
+    // Receivers are checked before anything is rewritten, while symbols still resolve
+    const calls = registrationCalls(sf).map(call => ({ call, provable: isV1Container(call.getExpression().asKindOrThrow(SyntaxKind.PropertyAccessExpression).getExpression(), containerNames) }));
+
+    // Innermost calls first so nested registrations are rewritten before their parents,
+    // reported afterwards in source order
+    const rewrites: (() => void)[] = [];
+    for (const { call, provable } of calls.reverse()) {
+      const callee = call.getExpression().asKindOrThrow(SyntaxKind.PropertyAccessExpression);
+      const method = callee.getName();
+      const helper = registrationHelpers.get(method)!;
+      const loc = nodeLoc(call);
+      // Other DI libraries (tsyringe and the like) and unrelated classes share these method names
+      if (!provable) {
+        const receiver = callee.getExpression().getText();
+        rewrites.unshift(() => reporter.warn(file, `${receiver}.${method}() looks like v1 container registration, but '${receiver}' is not known to be an Aurelia container. If it is one, rewrite it to register(Registration.${helper}()).`, { rule: 'registration/unknown-container', loc }));
+        continue;
+      }
+      const args = call.getArguments().map(a => a.getText());
+      if (args.length === 0) continue;
+      // The key doubles as the instance or implementation when only one is given
+      const helperArgs = args.length === 1 && method !== 'registerHandler' && method !== 'registerAlias' ? [args[0], args[0]] : args;
+      const before = call.getText();
+      const after = `${callee.getExpression().getText()}.register(Registration.${helper}(${helperArgs.join(', ')}))`;
+      call.replaceWithText(after);
+      needRegistration = true;
+      rewrites.unshift(() => {
+        reporter.edit(file, `${method}() -> register(Registration.${helper}())`, before, after, { loc });
+        if (method === 'registerHandler') {
+          reporter.warn(file, 'registerHandler() became Registration.callback(). v1 handlers receive (container, key, resolver), v2 callbacks receive (container, requestor, resolver); check the handler does not use the key.', { rule: 'registration/handler-signature', loc });
+        }
+      });
+    }
+    rewrites.forEach(report => report());
+
+    const moved: string[] = [];
+    for (const [name, uses] of lifetimes) {
+      const withArguments = uses.filter(u => u.args.length > 0);
+      for (const { cls, args, loc } of withArguments) {
+        reporter.warn(file, `@${name}(${args.join(', ')}) on class ${cls.getName() || '(anonymous)'} has v1 arguments. Aurelia 2's @${name} takes an options object, migrate it manually.`, { rule: 'registration/lifetime-arguments', loc });
+      }
+      if (withArguments.length > 0) continue;
+      for (const { cls, loc } of uses) {
+        reporter.edit(file, `@${name}() on class ${cls.getName() || '(anonymous)'} now imported from aurelia`, undefined, undefined, { loc });
+      }
+      moved.push(name);
+    }
+
+    if (moved.length > 0) {
+      for (const mod of aureliaV1Modules) removeNamedImports(sf, mod, new Set(moved));
+    }
+    const names = [...(needRegistration ? ['Registration'] : []), ...moved];
+    if (names.length > 0) {
+      ensureImport(sf, 'aurelia', names);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { Project, SyntaxKind, MethodDeclaration, ClassDeclaration, SourceFile } from 'ts-morph';
 import { Reporter } from '../types.js';
+import { nodeLoc, textLoc } from '../location.js';
 
 /**
  * Enhanced router configuration migration for Aurelia 1 → 2
@@ -43,25 +44,29 @@ function analyzeRouterConfiguration(
 ) {
   const methodText = method.getBodyText() || '';
   const filePath = sourceFile.getFilePath();
+  const loc = nodeLoc(method.getNameNode());
   
   reporter.warn(
     filePath,
-    `configureRouter() method in ${className} needs manual migration to Aurelia 2.`
+    `configureRouter() method in ${className} needs manual migration to Aurelia 2.`,
+    { rule: 'router/configure-router', loc }
   );
   
   reporter.note(
     filePath,
-    `Migration options: 1) Use static routes in main.ts, 2) Use @route decorators on components, 3) Use router-lite for simpler apps.`
+    `Migration options: 1) Use static routes in main.ts, 2) Use @route decorators on components, 3) Use router-lite for simpler apps.`,
+    { rule: 'router/migration-options', loc }
   );
   
   // Check for complex routing patterns  
-  analyzeComplexRoutingPatterns(methodText, filePath, reporter, className);
+  analyzeComplexRoutingPatterns(method, methodText, filePath, reporter, className);
   
   // Check for router title and navigation model configuration
   if (methodText.includes('router.title') || methodText.includes('config.title')) {
     reporter.note(
       filePath,
-      `Router title configuration found in ${className}. In Aurelia 2, set titles using @route({ title: 'Page Title' }) or page metadata.`
+      `Router title configuration found in ${className}. In Aurelia 2, set titles using @route({ title: 'Page Title' }) or page metadata.`,
+      { rule: 'router/title', loc: textLoc(method, methodText.includes('router.title') ? 'router.title' : 'config.title') }
     );
   }
 }
@@ -163,12 +168,13 @@ function generateDecoratorRoutes(routes: RouteConfig[]): string {
 /**
  * Analyze complex routing patterns that need special attention
  */
-function analyzeComplexRoutingPatterns(methodText: string, filePath: string, reporter: Reporter, className: string) {
+function analyzeComplexRoutingPatterns(method: MethodDeclaration, methodText: string, filePath: string, reporter: Reporter, className: string) {
   // Check for child routes
   if (methodText.includes('childRoutes') || methodText.includes('settings: { childRoutes')) {
     reporter.warn(
       filePath,
-      `${className} uses child routes. Aurelia 2 handles nested routing differently - review nested routing documentation.`
+      `${className} uses child routes. Aurelia 2 handles nested routing differently - review nested routing documentation.`,
+      { rule: 'router/child-routes', loc: textLoc(method, 'childRoutes') }
     );
   }
   
@@ -176,7 +182,8 @@ function analyzeComplexRoutingPatterns(methodText: string, filePath: string, rep
   if (methodText.includes(':') && methodText.match(/route:\s*['"`][^'"`]*:[^'"`]*['"`]/)) {
     reporter.note(
       filePath,
-      `${className} uses route parameters. Aurelia 2 supports parameters but syntax may differ: use {id} instead of :id`
+      `${className} uses route parameters. Aurelia 2 supports parameters but syntax may differ: use {id} instead of :id`,
+      { rule: 'router/route-parameters', loc: textLoc(method, methodText.match(/route:\s*['"`][^'"`]*:[^'"`]*['"`]/)![0]) }
     );
   }
   
@@ -184,7 +191,8 @@ function analyzeComplexRoutingPatterns(methodText: string, filePath: string, rep
   if (methodText.includes('*') && methodText.match(/route:\s*['"`][^'"`]*\*[^'"`]*['"`]/)) {
     reporter.note(
       filePath,
-      `${className} uses wildcard routes. Review Aurelia 2 wildcard syntax: use {...rest} for catch-all routes`
+      `${className} uses wildcard routes. Review Aurelia 2 wildcard syntax: use {...rest} for catch-all routes`,
+      { rule: 'router/wildcard-routes', loc: textLoc(method, methodText.match(/route:\s*['"`][^'"`]*\*[^'"`]*['"`]/)![0]) }
     );
   }
   
@@ -192,7 +200,8 @@ function analyzeComplexRoutingPatterns(methodText: string, filePath: string, rep
   if (methodText.includes('router.generate') || methodText.includes('generateUrl')) {
     reporter.warn(
       filePath,
-      `${className} generates route URLs programmatically. Aurelia 2 router has different URL generation APIs.`
+      `${className} generates route URLs programmatically. Aurelia 2 router has different URL generation APIs.`,
+      { rule: 'router/url-generation', loc: textLoc(method, methodText.includes('router.generate') ? 'router.generate' : 'generateUrl') }
     );
   }
 }
@@ -208,17 +217,19 @@ function analyzeRouterLifecycleMethods(cls: ClassDeclaration, sourceFile: Source
     const method = cls.getMethod(methodName);
     if (method) {
       const methodText = method.getBodyText() || '';
+      const loc = nodeLoc(method.getNameNode());
       
       // Analyze method parameters and return types
       const params = method.getParameters();
-      const hasNavigationInstruction = params.some(p => 
+      const navigationInstructionParam = params.find(p => 
         p.getTypeNode()?.getText().includes('NavigationInstruction')
       );
       
-      if (hasNavigationInstruction) {
+      if (navigationInstructionParam) {
         reporter.warn(
           filePath,
-          `${methodName}() in ${className} uses NavigationInstruction. Aurelia 2 router has different parameter types.`
+          `${methodName}() in ${className} uses NavigationInstruction. Aurelia 2 router has different parameter types.`,
+          { rule: 'router/navigation-instruction', loc: nodeLoc(navigationInstructionParam) }
         );
       }
       
@@ -229,7 +240,8 @@ function analyzeRouterLifecycleMethods(cls: ClassDeclaration, sourceFile: Source
       if (fullMethodText.includes('instruction.config') || fullMethodText.includes('navigationInstruction.config')) {
         reporter.warn(
           filePath,
-          `${methodName}() in ${className} accesses instruction.config. Route configuration access has changed in Aurelia 2.`
+          `${methodName}() in ${className} accesses instruction.config. Route configuration access has changed in Aurelia 2.`,
+          { rule: 'router/instruction-config', loc: textLoc(method, fullMethodText.includes('instruction.config') ? 'instruction.config' : 'navigationInstruction.config') }
         );
       }
       
@@ -237,7 +249,8 @@ function analyzeRouterLifecycleMethods(cls: ClassDeclaration, sourceFile: Source
           fullMethodText.includes('navigationInstruction.params') || fullMethodText.includes('navigationInstruction.queryParams')) {
         reporter.note(
           filePath,
-          `${methodName}() in ${className} accesses route parameters. Aurelia 2 injects parameters differently - use @newInstanceForScope or resolve IRouteContext.`
+          `${methodName}() in ${className} accesses route parameters. Aurelia 2 injects parameters differently - use @newInstanceForScope or resolve IRouteContext.`,
+          { rule: 'router/route-params-access', loc }
         );
       }
     }
@@ -254,7 +267,8 @@ function analyzeNavigationInstructions(cls: ClassDeclaration, sourceFile: Source
   if (classText.includes('NavigationInstruction')) {
     reporter.warn(
       filePath,
-      `${className} imports or uses NavigationInstruction. This interface has changed significantly in Aurelia 2.`
+      `${className} imports or uses NavigationInstruction. This interface has changed significantly in Aurelia 2.`,
+      { rule: 'router/navigation-instruction', loc: textLoc(cls, 'NavigationInstruction') }
     );
   }
   
@@ -262,7 +276,8 @@ function analyzeNavigationInstructions(cls: ClassDeclaration, sourceFile: Source
   if (classText.includes('router.navigate') || classText.includes('router.navigateToRoute')) {
     reporter.note(
       filePath,
-      `${className} calls router navigation methods. Aurelia 2 router navigation APIs are similar but may have different options.`
+      `${className} calls router navigation methods. Aurelia 2 router navigation APIs are similar but may have different options.`,
+      { rule: 'router/navigate', loc: textLoc(cls, 'router.navigate') }
     );
   }
   
@@ -270,7 +285,8 @@ function analyzeNavigationInstructions(cls: ClassDeclaration, sourceFile: Source
   if (classText.includes('router.generate') || classText.includes('generateUrl')) {
     reporter.warn(
       filePath,
-      `${className} generates route URLs programmatically. Aurelia 2 router has different URL generation APIs.`
+      `${className} generates route URLs programmatically. Aurelia 2 router has different URL generation APIs.`,
+      { rule: 'router/url-generation', loc: textLoc(cls, classText.includes('router.generate') ? 'router.generate' : 'generateUrl') }
     );
   }
   
@@ -278,7 +294,8 @@ function analyzeNavigationInstructions(cls: ClassDeclaration, sourceFile: Source
   if (classText.includes('router:navigation:') || classText.includes('RouterEvent')) {
     reporter.warn(
       filePath,
-      `${className} uses router events. Aurelia 2 has a different event system for router navigation.`
+      `${className} uses router events. Aurelia 2 has a different event system for router navigation.`,
+      { rule: 'router/events', loc: textLoc(cls, classText.includes('router:navigation:') ? 'router:navigation:' : 'RouterEvent') }
     );
   }
 }
@@ -304,32 +321,38 @@ export function generateRouterMigrationGuide(project: Project, reporter: Reporte
   if (hasRouterUsage) {
     reporter.note(
       'ROUTER_MIGRATION',
-      'Router Migration Guide:'
+      'Router Migration Guide:',
+      { rule: 'router/migration-guide' }
     );
     
     reporter.note(
       'ROUTER_MIGRATION',
-      '1. Replace configureRouter() with static routes in main.ts or @route decorators on components'
+      '1. Replace configureRouter() with static routes in main.ts or @route decorators on components',
+      { rule: 'router/migration-guide' }
     );
     
     reporter.note(
       'ROUTER_MIGRATION',
-      '2. Update router lifecycle methods - parameters and context have changed'
+      '2. Update router lifecycle methods - parameters and context have changed',
+      { rule: 'router/migration-guide' }
     );
     
     reporter.note(
       'ROUTER_MIGRATION',
-      '3. Install new router: npm install @aurelia/router'
+      '3. Install new router: npm install @aurelia/router',
+      { rule: 'router/migration-guide' }
     );
     
     reporter.note(
       'ROUTER_MIGRATION',
-      '4. Consider @aurelia/router-lite for simpler applications'
+      '4. Consider @aurelia/router-lite for simpler applications',
+      { rule: 'router/migration-guide' }
     );
     
     reporter.note(
       'ROUTER_MIGRATION',
-      '5. Review Aurelia 2 router documentation for viewport and navigation changes'
+      '5. Review Aurelia 2 router documentation for viewport and navigation changes',
+      { rule: 'router/migration-guide' }
     );
   }
 }
\ No newline at end of file
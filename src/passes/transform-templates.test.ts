@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import * as fs from 'node:fs';
+import * as path from 'node:path';
 import { transformTemplates } from './transform-templates';
 import { Reporter } from '../types.js';
 
@@ -236,6 +237,33 @@ describe('transformTemplates', () => {
     expect(warnings.some(w => w.message.includes('click.trigger="save()"'))).toBe(true);
   });
 
+  it('only warns about button clicks that can submit a form', () => {
+    const html = `<template>
+  <button click.trigger="outside()">Outside</button>
+  <button type="submit" click.trigger="submitOutside()">Submit outside</button>
+  <button form="signup" click.trigger="linked()">Linked</button>
+  <form>
+    <div>
+      <template if.bind="ready">
+        <button click.trigger="nested()">Nested</button>
+      </template>
+    </div>
+    <button type="button" click.trigger="plain()">Plain</button>
+    <button type="reset" click.trigger="reset()">Reset</button>
+    <input type="submit" click.trigger="input()">
+  </form>
+</template>`;
+
+    mockFs.readFileSync.mockReturnValue(html);
+
+    transformTemplates(['test.html'], reporter, { write: false });
+
+    const warned = reporter.finish().entries
+      .filter(e => e.rule === 'templates/prevent-default')
+      .map(e => /="(\w+)\(\)"/.exec(e.message)![1]);
+    expect(warned).toEqual(['linked', 'nested', 'input']);
+  });
+
   it('warns about form submit events that may need :prevent', () => {
     const html = `<template>
   <form submit.trigger="handleSubmit($event)">
@@ -334,8 +362,8 @@ describe('transformTemplates', () => {
     const preventWarnings = reportData.entries.filter(e => 
       e.kind === 'warn' && e.message.includes(':prevent')
     );
-    // Should still warn about button click since our current implementation is conservative
-    expect(preventWarnings.some(w => w.message.includes('safeClick()'))).toBe(true);
+    // type="button" never submits a form
+    expect(preventWarnings.some(w => w.message.includes('safeClick()'))).toBe(false);
     // But should not warn about mouseover
     expect(preventWarnings.some(w => w.message.includes('mouseover'))).toBe(false);
   });
@@ -372,7 +400,9 @@ describe('transformTemplates', () => {
       <au-compose template="./sidebar" component="./sidebar-vm"></au-compose>
     </main>
     
-    <footer-component click.trigger="handleFooterClick()" component.ref="footerRef">
+    <footer-component 
+      click.trigger="handleFooterClick()" 
+      component.ref="footerRef">
     </footer-component>
   </div>
 </template>`;
@@ -388,4 +418,425 @@ describe('transformTemplates', () => {
     const edits = reportData.entries.filter(e => e.kind === 'edit');
     expect(edits.length).toBeGreaterThan(4); // Multiple transformations
   });
+
+  it('only changes the edited names and values', () => {
+    const html = `<template>
+  <!-- keep me -->
+  <require from='./nav' ></require>
+  <input value.bind=name disabled>
+  <my-element
+    Action.call = 'save(x, "y")'
+    other.call=run()
+  />
+  <COMPOSE VIEW="./v.html" view-model='./vm'></COMPOSE>
+  <a href="#" click.delegate="go()">&amp; go</a>
+</template>`;
+
+    const expected = `<template>
+  <!-- keep me -->
+  <import from='./nav' ></import>
+  <input value.bind=name disabled>
+  <my-element
+    action.bind = '($event) => save(x, "y")'
+    other.bind="($event) => run()"
+  />
+  <au-compose template="./v.html" component='./vm'></au-compose>
+  <a href="#" click.trigger="go()">&amp; go</a>
+</template>`;
+
+    mockFs.readFileSync.mockReturnValue(html);
+
+    const [change] = transformTemplates(['test.html'], reporter, { write: false });
+
+    expect(change.after).toBe(expected);
+  });
+
+  describe('compose', () => {
+    const template = path.resolve('src/app.html');
+
+    function files(contents: Record<string, string>) {
+      mockFs.existsSync.mockImplementation(p => String(p) in contents);
+      mockFs.readFileSync.mockImplementation(p => {
+        if (String(p) in contents) return contents[String(p)];
+        throw new Error(`ENOENT: ${String(p)}`);
+      });
+    }
+
+    it('renames bound view and view-model attributes', () => {
+      files({ [template]: `<compose view-model.bind="current" view.one-way="markup" model.bind="item"></compose>` });
+
+      const [change] = transformTemplates([template], reporter, { write: false });
+
+      expect(change.after).toBe(`<au-compose component.bind="current" template.to-view="markup" model.bind="item"></au-compose>`);
+      const warnings = reporter.finish().entries.filter(e => e.kind === 'warn');
+      expect(warnings.map(w => w.rule)).toEqual(['templates/compose-view-path']);
+      expect(warnings[0].message).toContain('view.one-way="markup" binds a view strategy or path');
+    });
+
+    it('flags module paths, view paths and containerless', () => {
+      files({ [template]: `<template>
+  <compose view="./card.html" view-model="./card" containerless></compose>
+</template>` });
+
+      transformTemplates([template], reporter, { write: false });
+
+      const warnings = reporter.finish().entries.filter(e => e.kind === 'warn');
+      expect(warnings.map(w => [w.rule, w.loc])).toEqual([
+        ['templates/compose-view-path', { line: 2, col: 12 }],
+        ['templates/compose-module-path', { line: 2, col: 31 }],
+        ['templates/compose-containerless', { line: 2, col: 51 }]
+      ]);
+      expect(warnings[1].message).toBe(`view-model="./card" is a module path. au-compose's component takes a class or instance: import it in the view model and use component.bind.`);
+    });
+
+    it('checks activate(model) on the resolved view model', () => {
+      files({
+        [template]: `<compose view-model="./widgets/card" model.bind="item"></compose>`,
+        [path.resolve('src/widgets/card.ts')]: `export class Card {
+  async activate(model: Item) {
+    this.item = model;
+  }
+}`
+      });
+
+      transformTemplates([template], reporter, { write: false });
+
+      const entries = reporter.finish().entries;
+      expect(entries.find(e => e.rule === 'templates/compose-module-path')!.message).toContain(`(${path.join('widgets', 'card.ts')})`);
+      const note = entries.find(e => e.rule === 'templates/compose-activate')!;
+      expect(note.kind).toBe('note');
+      expect(note.message).toContain('defines activate(model: Item)');
+    });
+
+    it('notes a bound model the view model never receives', () => {
+      files({
+        [template]: `<compose view-model="../shared/panel" model.bind="item"></compose>`,
+        [path.resolve('shared/panel/index.js')]: `export class Panel {}`
+      });
+
+      transformTemplates([template], reporter, { write: false });
+
+      const note = reporter.finish().entries.find(e => e.rule === 'templates/compose-activate')!;
+      expect(note.message).toContain('has no activate(model) method');
+    });
+
+    it('only counts activate method declarations on the composed class', () => {
+      files({
+        [template]: `<compose view-model="./panel" model.bind="item"></compose>
+<compose view-model="./dialog" model.bind="item"></compose>`,
+        [path.resolve('src/panel.ts')]: `import { activate } from './lifecycle';
+
+export class Panel {
+  attached() {
+    activate(this);
+  }
+}`,
+        [path.resolve('src/dialog.ts')]: `export class Dialog {
+  protected activate(model: Item) {}
+}`
+      });
+
+      transformTemplates([template], reporter, { write: false });
+
+      const notes = reporter.finish().entries.filter(e => e.rule === 'templates/compose-activate');
+      expect(notes.map(n => n.message)).toEqual([
+        'The model is bound but panel.ts has no activate(model) method, so au-compose has nowhere to pass it.',
+        expect.stringContaining('dialog.ts defines activate(model: Item).')
+      ]);
+    });
+  });
+
+  describe('replaceable parts', () => {
+    it('converts replaceable parts to au-slot definitions', () => {
+      const html = `<template>
+  <div class="grid">
+    <template replaceable part="cell">
+      <span>\${row.name}</span>
+    </template>
+  </div>
+</template>`;
+      mockFs.readFileSync.mockReturnValue(html);
+
+      const [change] = transformTemplates(['grid.html'], reporter, { write: false });
+
+      expect(change.after).toBe(`<template>
+  <div class="grid">
+    <au-slot name="cell">
+      <span>\${row.name}</span>
+    </au-slot>
+  </div>
+</template>`);
+      expect(reporter.finish().entries.find(e => e.message === '<template replaceable part> -> <au-slot name>')?.loc).toEqual({ line: 3, col: 5 });
+    });
+
+    it('warns when a replaceable template has no part', () => {
+      mockFs.readFileSync.mockReturnValue(`<template><template replaceable></template></template>`);
+
+      const changes = transformTemplates(['grid.html'], reporter, { write: false });
+
+      expect(changes).toEqual([]);
+      expect(reporter.finish().entries.map(e => e.rule)).toEqual(['templates/replaceable-without-part']);
+    });
+
+    it('converts replace-part projections to au-slot', () => {
+      const html = `<template>
+  <grid rows.bind="rows">
+    <template replace-part="cell"><b>\${name}</b></template>
+  </grid>
+</template>`;
+      mockFs.readFileSync.mockReturnValue(html);
+
+      const [change] = transformTemplates(['page.html'], reporter, { write: false });
+
+      expect(change.after).toContain('<template au-slot="cell"><b>${name}</b></template>');
+      expect(reporter.finish().entries.filter(e => e.kind === 'warn')).toEqual([]);
+    });
+
+    it('reports $parent inside replaced parts', () => {
+      const html = `<template>
+  <grid>
+    <template replace-part="cell">
+      <a click.trigger="$parent.select(row)">\${$parent.title}</a>
+    </template>
+  </grid>
+</template>`;
+      mockFs.readFileSync.mockReturnValue(html);
+
+      transformTemplates(['page.html'], reporter, { write: false });
+
+      const warnings = reporter.finish().entries.filter(e => e.rule === 'templates/replace-part-scope');
+      expect(warnings.map(w => w.loc)).toEqual([{ line: 4, col: 10 }, { line: 4, col: 46 }]);
+      expect(warnings[0].message).toContain('$host');
+    });
+  });
+
+  describe('binding commands and behaviors', () => {
+    it('renames v1 binding commands', () => {
+      const html = `<template>
+  <input value.one-way="name" checked.two-way="done" title.one-time="t" text.from-view="x">
+</template>`;
+      mockFs.readFileSync.mockReturnValue(html);
+
+      const [change] = transformTemplates(['test.html'], reporter, { write: false });
+
+      expect(change.after).toContain('<input value.to-view="name" checked.two-way="done" title.one-time="t" text.from-view="x">');
+      const edit = reporter.finish().entries.find(e => e.message === '*.one-way -> *.to-view')!;
+      expect(edit.loc).toEqual({ line: 2, col: 10 });
+    });
+
+    it('renames binding behaviors in attributes and interpolations', () => {
+      const html = `<template>
+  <input value.bind="name & oneWay" disabled.bind="a && oneWay">
+  <span title="\${title & oneWay}">\${count &oneWay} items & oneWay</span>
+</template>`;
+      mockFs.readFileSync.mockReturnValue(html);
+
+      const [change] = transformTemplates(['test.html'], reporter, { write: false });
+
+      expect(change.after).toBe(`<template>
+  <input value.bind="name & toView" disabled.bind="a && oneWay">
+  <span title="\${title & toView}">\${count &toView} items & oneWay</span>
+</template>`);
+      const edits = reporter.finish().entries.filter(e => e.message === '& oneWay -> & toView');
+      expect(edits.map(e => e.loc)).toEqual([
+        { line: 2, col: 10 },
+        { line: 3, col: 9 },
+        { line: 3, col: 35 }
+      ]);
+    });
+
+    it('leaves behavior names in plain text and literal attributes alone', () => {
+      mockFs.readFileSync.mockReturnValue(`<p title="Rock & oneWay streets" data-x="\${a} & oneWay">Rock & oneWay</p>`);
+
+      expect(transformTemplates(['test.html'], reporter, { write: false })).toEqual([]);
+      expect(reporter.finish().entries).toEqual([]);
+    });
+
+    it('leaves v2 compatible behaviors alone', () => {
+      mockFs.readFileSync.mockReturnValue(`<input value.bind="q & debounce:300 & oneTime">`);
+
+      expect(transformTemplates(['test.html'], reporter, { write: false })).toEqual([]);
+    });
+
+    it('warns about bindings without a v2 equivalent', () => {
+      mockFs.readFileSync.mockReturnValue(`<template>
+  <my-element view.ref="myView"></my-element>
+</template>`);
+
+      const changes = transformTemplates(['test.html'], reporter, { write: false });
+
+      expect(changes).toEqual([]);
+      const warning = reporter.finish().entries.find(e => e.rule === 'templates/no-v2-equivalent')!;
+      expect(warning.message).toContain("'view.ref'");
+      expect(warning.loc).toEqual({ line: 2, col: 15 });
+    });
+  });
+
+  describe('route-href', () => {
+    it('converts route-href to load keeping the bindings', () => {
+      const html = `<template>
+  <a route-href="route: user-details; params.bind: { id: user.id, tab: 'a;b' }">User</a>
+  <a route-href="route.bind: next.name; attribute: data-href">Next</a>
+  <a route-href="home">Home</a>
+</template>`;
+      mockFs.readFileSync.mockReturnValue(html);
+
+      const [change] = transformTemplates(['test.html'], reporter, { write: false });
+
+      expect(change.after).toBe(`<template>
+  <a load="route: user-details; params.bind: { id: user.id, tab: 'a;b' }">User</a>
+  <a load="route.bind: next.name; attribute: data-href">Next</a>
+  <a load="home">Home</a>
+</template>`);
+      const edits = reporter.finish().entries.filter(e => e.message === 'route-href -> load');
+      expect(edits).toHaveLength(3);
+      expect(edits[0].before).toBe(`route-href="route: user-details; params.bind: { id: user.id, tab: 'a;b' }"`);
+      expect(edits[0].loc).toEqual({ line: 2, col: 6 });
+    });
+
+    it('flags unusual shapes instead of guessing', () => {
+      const html = `<template>
+  <a route-href.bind="routeName">A</a>
+  <a route-href="params.bind: { id: 1 }">B</a>
+  <a route-href="route: a; href: b">C</a>
+  <a route-href="route: a; route: b">D</a>
+  <a route-href="route: a; \${x}">E</a>
+</template>`;
+      mockFs.readFileSync.mockReturnValue(html);
+
+      const changes = transformTemplates(['test.html'], reporter, { write: false });
+
+      expect(changes).toEqual([]);
+      const warnings = reporter.finish().entries.filter(e => e.rule === 'templates/route-href');
+      expect(warnings.map(w => /because (.*)\. Migrate/.exec(w.message)![1])).toEqual([
+        "it uses the 'bind' binding command",
+        'it has no route',
+        "'href' is not a route-href property",
+        'a property is set more than once',
+        'it is not a list of name: value pairs'
+      ]);
+    });
+  });
+
+  describe('HTML-only elements', () => {
+    it('turns <template bindable> into <bindable> elements and drops the wrapper', () => {
+      const html = `<template bindable="title, items">
+  <h1>\${title}</h1>
+  <ul><li repeat.for="item of items">\${item}</li></ul>
+</template>
+`;
+      mockFs.readFileSync.mockReturnValue(html);
+
+      const [change] = transformTemplates(['card.html'], reporter, { write: false });
+
+      expect(change.after).toBe(`<bindable name="title"></bindable>
+<bindable name="items"></bindable>
+  <h1>\${title}</h1>
+  <ul><li repeat.for="item of items">\${item}</li></ul>
+
+`);
+      const edit = reporter.finish().entries.find(e => e.message === '<template bindable> -> <bindable> elements')!;
+      expect(edit.before).toBe('bindable="title, items"');
+      expect(edit.loc).toEqual({ line: 1, col: 1 });
+    });
+
+    it('keeps the wrapper when it has other attributes', () => {
+      mockFs.readFileSync.mockReturnValue(`<template bindable="title" class="card">\${title}</template>`);
+
+      const [change] = transformTemplates(['card.html'], reporter, { write: false });
+
+      expect(change.after).toBe(`<template class="card">\n  <bindable name="title"></bindable>\${title}</template>`);
+      expect(reporter.finish().entries.map(e => e.rule).filter(Boolean)).toEqual(['templates/root-template-attributes']);
+    });
+
+    it('reports bindables it cannot express', () => {
+      mockFs.readFileSync.mockReturnValue(`<template bindable="title, items.two-way"></template>`);
+
+      const [change] = transformTemplates(['card.html'], reporter, { write: false });
+
+      expect(change.after).toBe('<bindable name="title"></bindable>');
+      const warning = reporter.finish().entries.find(e => e.rule === 'templates/bindable-option')!;
+      expect(warning.message).toContain("'items.two-way'");
+      expect(warning.loc).toEqual({ line: 1, col: 11 });
+    });
+
+    it('ignores bindable on nested templates', () => {
+      mockFs.readFileSync.mockReturnValue(`<template><template bindable="x"></template></template>`);
+
+      expect(transformTemplates(['card.html'], reporter, { write: false })).toEqual([]);
+    });
+  });
+
+  describe('applyPrevent', () => {
+    const html = `<template>
+  <form submit.delegate="save()">
+    <button click.delegate="add()">Add</button>
+    <button type="button" click.delegate="cancel()">Cancel</button>
+    <input keydown.trigger="key($event)">
+  </form>
+  <a href="/users" click.trigger="open()">Users</a>
+  <a click.trigger="open()">No href</a>
+</template>`;
+
+    it('rewrites handlers whose default action v1 prevented', () => {
+      mockFs.readFileSync.mockReturnValue(html);
+
+      const [change] = transformTemplates(['test.html'], reporter, { write: false, applyPrevent: true });
+
+      expect(change.after).toBe(`<template>
+  <form submit.trigger:prevent="save()">
+    <button click.trigger:prevent="add()">Add</button>
+    <button type="button" click.trigger="cancel()">Cancel</button>
+    <input keydown.trigger="key($event)">
+  </form>
+  <a href="/users" click.trigger:prevent="open()">Users</a>
+  <a click.trigger="open()">No href</a>
+</template>`);
+    });
+
+    it('records before and after, and still warns about key events', () => {
+      mockFs.readFileSync.mockReturnValue(html);
+
+      transformTemplates(['test.html'], reporter, { write: false, applyPrevent: true });
+
+      const entries = reporter.finish().entries;
+      const prevented = entries.filter(e => e.message === '*.trigger -> *.trigger:prevent');
+      expect(prevented.map(e => [e.before, e.after])).toEqual([
+        ['submit.delegate="save()"', 'submit.trigger:prevent="save()"'],
+        ['click.delegate="add()"', 'click.trigger:prevent="add()"'],
+        ['click.trigger="open()"', 'click.trigger:prevent="open()"']
+      ]);
+      expect(prevented[0].loc).toEqual({ line: 2, col: 9 });
+      const warnings = entries.filter(e => e.rule === 'templates/prevent-default');
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].message).toContain('keydown.trigger');
+    });
+
+    it('is off by default', () => {
+      mockFs.readFileSync.mockReturnValue(html);
+
+      const [change] = transformTemplates(['test.html'], reporter, { write: false });
+
+      expect(change.after).not.toContain(':prevent');
+    });
+  });
+
+  it('records template source locations', () => {
+    const html = `<template>
+  <require from="./comp"></require>
+  <form>
+    <button type="submit" click.delegate="save()">Save</button>
+  </form>
+</template>`;
+
+    mockFs.readFileSync.mockReturnValue(html);
+    mockFs.writeFileSync.mockImplementation(() => {});
+
+    transformTemplates(['test.html'], reporter, { write: false });
+
+    const entries = reporter.finish().entries;
+    expect(entries.find(e => e.message === '<require> -> <import>')?.loc).toEqual({ line: 2, col: 3 });
+    expect(entries.find(e => e.message === '*.delegate -> *.trigger')?.loc).toEqual({ line: 4, col: 27 });
+    expect(entries.find(e => e.kind === 'warn')?.loc).toEqual({ line: 4, col: 27 });
+  });
 });
@@ -1,30 +1,163 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { parseFragment, serialize, DefaultTreeAdapterTypes } from 'parse5';
-import { Reporter } from '../types.js';
+import { parseFragment, DefaultTreeAdapterTypes } from 'parse5';
+import * as ts from 'typescript';
+import { FileChange, Reporter, SourceLocation } from '../types.js';
+import { TemplateSource, interpolations, rewriteInterpolations } from './template-source.js';
 
 interface Options {
   write: boolean;
+  /** Rewrite handlers whose default action v1 prevented to `*.trigger:prevent` instead of warning. */
+  applyPrevent?: boolean;
+}
+
+/**
+ * v1 binding commands and their v2 names.
+ */
+const bindingCommands = new Map<string, string>([
+  ['one-way', 'to-view']
+]);
+
+/**
+ * Binding commands whose whole value is an expression, so binding behaviors can appear
+ * anywhere in it. Other attributes only have expressions inside `${}`.
+ */
+const expressionCommands = new Set([
+  'bind', 'one-way', 'to-view', 'two-way', 'from-view', 'one-time',
+  'trigger', 'delegate', 'capture', 'call', 'for'
+]);
+
+/**
+ * Whole attribute names that changed, for targets that are not plain element properties.
+ */
+const bindingTargets = new Map<string, string | null>([
+  ['view-model.ref', 'component.ref'],
+  ['view.ref', null]
+]);
+
+/**
+ * v1 binding behaviors and their v2 names.
+ */
+const bindingBehaviors = new Map<string, string>([
+  ['oneWay', 'toView']
+]);
+
+// `& name` but not the second `&` of `&&`
+const behaviorPattern = new RegExp(`(?<!&)&(\\s*)(${Array.from(bindingBehaviors.keys()).join('|')})\\b`, 'g');
+
+function findBehaviors(expression: string): string[] {
+  return Array.from(expression.matchAll(behaviorPattern), m => m[2]);
+}
+
+function renameBehaviors(expression: string): string {
+  return expression.replace(behaviorPattern, (_, space: string, name: string) => `&${space}${bindingBehaviors.get(name)}`);
+}
+
+function renameInterpolatedBehaviors(text: string): string {
+  return rewriteInterpolations(text, renameBehaviors);
+}
+
+/**
+ * route-href bindables that exist on v2's load attribute under the same name.
+ */
+const routeHrefProperties = new Set(['route', 'params', 'attribute']);
+
+/**
+ * Split a multi-binding attribute value on top level semicolons. Returns null when a
+ * segment is not `name(.command): value`.
+ */
+function parseMultiBinding(value: string): { name: string; command?: string; expression: string }[] | null {
+  const segments: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (quote) {
+      if (ch === quote && value[i - 1] !== '\\') quote = '';
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if (ch === '{' || ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === '}' || ch === ')' || ch === ']') {
+      depth--;
+    } else if (ch === ';' && depth === 0) {
+      segments.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  segments.push(value.slice(start));
+
+  const bindings = [];
+  for (const segment of segments.map(s => s.trim()).filter(Boolean)) {
+    const match = /^([A-Za-z][\w-]*)(?:\.([\w-]+))?\s*:\s*(\S[\s\S]*)$/.exec(segment);
+    if (!match) return null;
+    bindings.push({ name: match[1], command: match[2], expression: match[3] });
+  }
+  return bindings;
+}
+
+/**
+ * Why a route-href value cannot be carried over to load as is, or null when it can.
+ */
+function unusualRouteHref(value: string): string | null {
+  if (!value.includes(':')) {
+    return value.trim() ? null : 'it has no route';
+  }
+  const bindings = parseMultiBinding(value);
+  if (!bindings) return 'it is not a list of name: value pairs';
+  const unknown = bindings.find(b => !routeHrefProperties.has(b.name));
+  if (unknown) return `'${unknown.name}' is not a route-href property`;
+  const names = bindings.map(b => b.name);
+  if (new Set(names).size !== names.length) return 'a property is set more than once';
+  if (!names.includes('route')) return 'it has no route';
+  return null;
 }
 
 function isElement(n: DefaultTreeAdapterTypes.Node): n is DefaultTreeAdapterTypes.Element {
   return (n as any).tagName !== undefined;
 }
 
+function elementLoc(element: DefaultTreeAdapterTypes.Element): SourceLocation | undefined {
+  const loc = element.sourceCodeLocation;
+  return loc ? { line: loc.startLine, col: loc.startCol } : undefined;
+}
+
+/**
+ * Attribute locations are keyed by the name as parsed, so look them up before renaming.
+ */
+function attrLoc(element: DefaultTreeAdapterTypes.Element, name: string): SourceLocation | undefined {
+  const loc = element.sourceCodeLocation?.attrs?.[name];
+  return loc ? { line: loc.startLine, col: loc.startCol } : elementLoc(element);
+}
+
 /**
  * Check if an event handler on a specific element might need preventDefault behavior
  * This helps identify cases where Aurelia 1's automatic preventDefault might be missed in v2
  */
-function isPotentiallyProblematicEvent(element: DefaultTreeAdapterTypes.Element, eventName: string, eventValue: string): boolean {
+function isPotentiallyProblematicEvent(element: DefaultTreeAdapterTypes.Element, eventName: string, ancestors: DefaultTreeAdapterTypes.Element[]): boolean {
+  if (hasPreventedDefaultAction(element, eventName, ancestors)) {
+    return true;
+  }
+  
+  // Key events that commonly need preventDefault (like Enter in forms)
+  if (eventName === 'keydown' || eventName === 'keyup' || eventName === 'keypress') {
+    return true;
+  }
+  
+  return false;
+}
+
+/**
+ * Events whose default action (submitting, navigating) v1 prevented. These are safe to
+ * rewrite to :prevent automatically, other events only get a warning.
+ */
+function hasPreventedDefaultAction(element: DefaultTreeAdapterTypes.Element, eventName: string, ancestors: DefaultTreeAdapterTypes.Element[]): boolean {
   const tagName = element.tagName.toLowerCase();
   
-  // Form submission events on buttons inside forms
-  if (eventName === 'click' && tagName === 'button') {
-    // Check if button is inside a form or has type="submit"
-    const typeAttr = element.attrs.find(attr => attr.name === 'type');
-    if (typeAttr?.value === 'submit' || isInsideForm(element)) {
-      return true;
-    }
+  // Clicks on submit buttons submit their form
+  if (eventName === 'click' && isSubmitButton(element)) {
+    return isInsideForm(ancestors) || element.attrs.some(attr => attr.name === 'form');
   }
   
   // Form submission events
@@ -41,73 +174,297 @@ function isPotentiallyProblematicEvent(element: DefaultTreeAdapterTypes.Element,
     }
   }
   
-  // Key events that commonly need preventDefault (like Enter in forms)
-  if (eventName === 'keydown' || eventName === 'keyup' || eventName === 'keypress') {
-    return true;
-  }
-  
   return false;
 }
 
 /**
- * Check if an element is inside a form (simplified check - only looks at direct ancestors)
+ * Buttons default to type="submit"; a bound or unknown type is treated as submit too.
+ */
+function isSubmitButton(element: DefaultTreeAdapterTypes.Element): boolean {
+  const type = element.attrs.find(attr => attr.name === 'type')?.value.trim().toLowerCase();
+  if (element.tagName === 'button') {
+    return type !== 'button' && type !== 'reset';
+  }
+  return element.tagName === 'input' && (type === 'submit' || type === 'image');
+}
+
+/**
+ * Ancestors include <template> elements, so a <form> wrapping a repeat or if template still counts.
  */
-function isInsideForm(element: DefaultTreeAdapterTypes.Element): boolean {
-  // This is a simplified check - in a full implementation we'd walk up the DOM tree
-  // For now, we'll be conservative and assume buttons might be in forms
-  return true; // Conservative approach - warn about all button clicks
+function isInsideForm(ancestors: DefaultTreeAdapterTypes.Element[]): boolean {
+  return ancestors.some(a => a.tagName === 'form');
 }
 
-export function transformTemplates(files: string[], reporter: Reporter, options: Options) {
+/**
+ * HTML-only elements: `<template bindable="a, b">` becomes `<bindable name="a"></bindable>`
+ * elements. The wrapper is dropped when bindable was its only attribute, otherwise it is
+ * kept with the bindables as its first children. Returns the number of edits.
+ */
+function convertBindableTemplate(doc: DefaultTreeAdapterTypes.DocumentFragment, source: TemplateSource, file: string, reporter: Reporter): number {
+  const roots = doc.childNodes.filter(isElement);
+  const root = roots[0];
+  if (roots.length !== 1 || root.tagName !== 'template') return 0;
+  const bindable = root.attrs.find(a => a.name === 'bindable');
+  const loc = root.sourceCodeLocation;
+  if (!bindable || !loc?.startTag) return 0;
+
+  const names: string[] = [];
+  for (const item of bindable.value.split(',').map(s => s.trim()).filter(Boolean)) {
+    if (/^[A-Za-z_$][\w$]*$/.test(item)) {
+      names.push(item);
+    } else {
+      reporter.warn(file, `Bindable '${item}' cannot be expressed as <bindable name="...">. Declare it manually.`, { rule: 'templates/bindable-option', loc: attrLoc(root, 'bindable') });
+    }
+  }
+  const bindables = names.map(name => `<bindable name="${name}"></bindable>`);
+  const others = root.attrs.filter(a => a !== bindable);
+
+  if (others.length === 0) {
+    source.replace(loc.startTag.startOffset, loc.startTag.endOffset, bindables.join('\n'));
+    if (loc.endTag) source.replace(loc.endTag.startOffset, loc.endTag.endOffset, '');
+  } else {
+    source.removeAttr(root, bindable);
+    if (bindables.length > 0) {
+      source.replace(loc.startTag.endOffset, loc.startTag.endOffset, bindables.map(b => `\n  ${b}`).join(''));
+    }
+    reporter.warn(file, `Root <template> has attributes besides bindable (${others.map(a => a.name).join(', ')}). Kept the wrapper, check they still apply in v2.`, { rule: 'templates/root-template-attributes', loc: elementLoc(root) });
+  }
+  reporter.edit(file, '<template bindable> -> <bindable> elements', `bindable="${bindable.value}"`, bindables.join('\n'), { loc: elementLoc(root) });
+  return 1;
+}
+
+/**
+ * `<compose>` attributes that changed name on `<au-compose>`, keyed by the part before the
+ * binding command.
+ */
+const composeAttributes = new Map([
+  ['view', 'template'],
+  ['view-model', 'component']
+]);
+
+/**
+ * File a relative view-model module ID points at, looked up next to the template the way
+ * the v1 loader did. Bare module IDs depend on the loader config and are not resolved.
+ */
+function resolveComposedModule(template: string, moduleId: string): string | undefined {
+  if (!moduleId.startsWith('./') && !moduleId.startsWith('../')) return undefined;
+  const base = path.resolve(path.dirname(template), moduleId);
+  const candidates = /\.[jt]s$/.test(base)
+    ? [base]
+    : ['.ts', '.js', '/index.ts', '/index.js'].map(ext => base + ext);
+  return candidates.find(c => fs.existsSync(c));
+}
+
+/**
+ * Parameter list of the `activate` method on the class a composed module exports, the one
+ * compose instantiated, or undefined when that class has no such method.
+ */
+function activateParameters(file: string): string | undefined {
+  const sf = ts.createSourceFile(file, fs.readFileSync(file, 'utf8'), ts.ScriptTarget.Latest, true);
+  const classes = sf.statements.filter(ts.isClassDeclaration);
+  const exported = classes.find(c => ts.getCombinedModifierFlags(c) & ts.ModifierFlags.Export);
+  const activate = (exported ?? classes[0])?.members.find((m): m is ts.MethodDeclaration =>
+    ts.isMethodDeclaration(m)
+    && !!m.body
+    && !(ts.getCombinedModifierFlags(m) & ts.ModifierFlags.Static)
+    && m.name.getText(sf) === 'activate'
+  );
+  return activate?.parameters.map(p => p.getText(sf)).join(', ');
+}
+
+/**
+ * `<compose>` becomes `<au-compose>` with `view` and `view-model` renamed. Module paths,
+ * view paths and containerless do not carry over and are flagged. When the view model
+ * resolves to a file, its activate(model) is checked against the bound model. Returns the
+ * number of edits.
+ */
+function convertCompose(element: DefaultTreeAdapterTypes.Element, source: TemplateSource, file: string, reporter: Reporter): number {
+  source.renameTag(element, 'au-compose');
+  reporter.edit(file, '<compose> -> <au-compose>', undefined, undefined, { loc: elementLoc(element) });
+
+  let resolved: string | undefined;
+  for (const a of element.attrs) {
+    const loc = attrLoc(element, a.name);
+    if (a.name === 'containerless') {
+      reporter.warn(file, 'containerless on <compose> does not carry over to <au-compose>. Declare it on the composed component (@containerless) instead.', { rule: 'templates/compose-containerless', loc });
+      continue;
+    }
+    const dot = a.name.indexOf('.');
+    const target = dot === -1 ? a.name : a.name.slice(0, dot);
+    const command = dot === -1 ? '' : a.name.slice(dot);
+    const to = composeAttributes.get(target);
+    // view-model.ref and view.ref are handled with the other binding targets
+    if (!to || command === '.ref') continue;
+    const original = a.name;
+    source.renameAttr(element, a, to + command);
+
+    if (target === 'view') {
+      const problem = command ? 'binds a view strategy or path' : 'is a path';
+      reporter.warn(file, `${original}="${a.value}" ${problem}. au-compose's template takes markup: import the HTML in the view model and use template.bind.`, { rule: 'templates/compose-view-path', loc });
+    } else if (!command && a.value.trim()) {
+      const moduleId = a.value.trim();
+      resolved = resolveComposedModule(file, moduleId);
+      const where = resolved ? ` (${path.relative(path.dirname(file), resolved)})` : '';
+      reporter.warn(file, `view-model="${moduleId}"${where} is a module path. au-compose's component takes a class or instance: import it in the view model and use component.bind.`, { rule: 'templates/compose-module-path', loc });
+    }
+  }
+
+  if (resolved) {
+    const name = path.relative(path.dirname(file), resolved);
+    const activate = activateParameters(resolved);
+    const hasModel = element.attrs.some(a => a.name === 'model' || a.name.startsWith('model.'));
+    if (activate !== undefined) {
+      reporter.note(file, `${name} defines activate(${activate}). au-compose passes the model to it as compose did, before binding() runs; check anything it relied on from bind().`, { rule: 'templates/compose-activate', loc: elementLoc(element) });
+    } else if (hasModel) {
+      reporter.note(file, `The model is bound but ${name} has no activate(model) method, so au-compose has nowhere to pass it.`, { rule: 'templates/compose-activate', loc: elementLoc(element) });
+    }
+  }
+  return 1;
+}
+
+/**
+ * Locations of `$parent` in attribute values and text inside a template's content.
+ */
+function findParentUsages(template: DefaultTreeAdapterTypes.Element): SourceLocation[] {
+  const found: SourceLocation[] = [];
+  const pattern = /\$parent\b/;
+  function walk(node: DefaultTreeAdapterTypes.Node) {
+    if (isElement(node)) {
+      for (const a of node.attrs) {
+        if (pattern.test(a.value)) found.push(attrLoc(node, a.name)!);
+      }
+    } else if (node.nodeName === '#text' && pattern.test((node as DefaultTreeAdapterTypes.TextNode).value)) {
+      const loc = (node as DefaultTreeAdapterTypes.TextNode).sourceCodeLocation;
+      if (loc) found.push({ line: loc.startLine, col: loc.startCol });
+    }
+    const anyNode = node as any;
+    for (const child of anyNode.childNodes ?? []) walk(child);
+    for (const child of anyNode.content?.childNodes ?? []) walk(child);
+  }
+  for (const child of (template as any).content?.childNodes ?? []) walk(child);
+  return found;
+}
+
+export function transformTemplates(files: string[], reporter: Reporter, options: Options): FileChange[] {
+  const changes: FileChange[] = [];
   for (const file of files) {
     const html = fs.readFileSync(file, 'utf8');
     const doc = parseFragment(html, { sourceCodeLocationInfo: true });
+    const source = new TemplateSource(html);
     let edits = 0;
     let warnings = 0;
 
-    function visit(node: DefaultTreeAdapterTypes.Node) {
+    /**
+     * Report each behavior found, then apply the renames. Returns the number of edits.
+     */
+    function renameBehaviorsIn(found: string[], loc: SourceLocation | undefined, apply: () => boolean): number {
+      for (const name of found) {
+        reporter.edit(file, `& ${name} -> & ${bindingBehaviors.get(name)}`, undefined, undefined, { loc });
+      }
+      if (found.length > 0) apply();
+      return found.length;
+    }
+
+    function visit(node: DefaultTreeAdapterTypes.Node, ancestors: DefaultTreeAdapterTypes.Element[]) {
       if (isElement(node)) {
+        const loc = elementLoc(node);
         // tag transforms
         if (node.tagName === 'require') {
-          node.tagName = 'import';
+          source.renameTag(node, 'import');
           edits++;
-          reporter.edit(file, '<require> -> <import>');
+          reporter.edit(file, '<require> -> <import>', undefined, undefined, { loc });
         }
         if (node.tagName === 'router-view') {
-          node.tagName = 'au-viewport';
+          source.renameTag(node, 'au-viewport');
           edits++;
-          reporter.edit(file, '<router-view> -> <au-viewport>');
+          reporter.edit(file, '<router-view> -> <au-viewport>', undefined, undefined, { loc });
         }
         if (node.tagName === 'compose') {
-          node.tagName = 'au-compose';
-          edits++;
-          reporter.edit(file, '<compose> -> <au-compose>');
-          for (const a of node.attrs) {
-            if (a.name === 'view') a.name = 'template';
-            if (a.name === 'view-model') a.name = 'component';
+          edits += convertCompose(node, source, file, reporter);
+        }
+        if (node.tagName === 'template') {
+          const replaceable = node.attrs.find(a => a.name === 'replaceable');
+          const part = node.attrs.find(a => a.name === 'part');
+          if (replaceable && part) {
+            source.renameTag(node, 'au-slot');
+            source.removeAttr(node, replaceable);
+            source.renameAttr(node, part, 'name');
+            edits++;
+            reporter.edit(file, '<template replaceable part> -> <au-slot name>', undefined, undefined, { loc });
+          } else if (replaceable) {
+            warnings++;
+            reporter.warn(file, '<template replaceable> without a part name. Convert it to <au-slot name="..."> manually.', { rule: 'templates/replaceable-without-part', loc });
+          }
+
+          const replacePart = node.attrs.find(a => a.name === 'replace-part');
+          if (replacePart) {
+            source.renameAttr(node, replacePart, 'au-slot');
+            edits++;
+            reporter.edit(file, '<template replace-part> -> <template au-slot>', undefined, undefined, { loc });
+            for (const usage of findParentUsages(node)) {
+              warnings++;
+              reporter.warn(file, `Part '${replacePart.value}' uses $parent. Projected au-slot content is bound to the outer scope in v2; use $host to reach the custom element.`, { rule: 'templates/replace-part-scope', loc: usage });
+            }
           }
         }
 
         for (const a of node.attrs) {
+          const loc = attrLoc(node, a.name);
+          const originalName = a.name;
           if (a.name.endsWith('.delegate')) {
-            a.name = a.name.replace('.delegate', '.trigger');
+            source.renameAttr(node, a, a.name.replace('.delegate', '.trigger'));
             edits++;
-            reporter.edit(file, '*.delegate -> *.trigger');
+            reporter.edit(file, '*.delegate -> *.trigger', undefined, undefined, { loc });
           }
-          if (a.name === 'view-model.ref') {
-            a.name = 'component.ref';
-            edits++;
-            reporter.edit(file, 'view-model.ref -> component.ref');
+          if (a.name === 'route-href' || a.name.startsWith('route-href.')) {
+            const problem = a.name === 'route-href'
+              ? unusualRouteHref(a.value)
+              : `it uses the '${a.name.slice('route-href.'.length)}' binding command`;
+            if (problem) {
+              warnings++;
+              reporter.warn(file, `route-href="${a.value}" was not converted to load because ${problem}. Migrate it manually.`, { rule: 'templates/route-href', loc });
+            } else {
+              source.renameAttr(node, a, 'load');
+              edits++;
+              reporter.edit(file, 'route-href -> load', `route-href="${a.value}"`, `load="${a.value}"`, { loc });
+            }
+          }
+          if (bindingTargets.has(a.name)) {
+            const to = bindingTargets.get(a.name);
+            if (to) {
+              reporter.edit(file, `${a.name} -> ${to}`, undefined, undefined, { loc });
+              source.renameAttr(node, a, to);
+              edits++;
+            } else {
+              warnings++;
+              reporter.warn(file, `'${a.name}' has no Aurelia 2 equivalent. Use component.ref, controller.ref or ref instead.`, { rule: 'templates/no-v2-equivalent', loc });
+            }
+          } else {
+            const dot = a.name.lastIndexOf('.');
+            const command = a.name.slice(dot + 1);
+            if (dot > 0 && bindingCommands.has(command)) {
+              const to = bindingCommands.get(command)!;
+              source.renameAttr(node, a, `${a.name.slice(0, dot)}.${to}`);
+              edits++;
+              reporter.edit(file, `*.${command} -> *.${to}`, undefined, undefined, { loc });
+            }
+          }
+          if (a.value.includes('&')) {
+            const dot = originalName.lastIndexOf('.');
+            if (dot > 0 && expressionCommands.has(originalName.slice(dot + 1).split(':')[0])) {
+              edits += renameBehaviorsIn(findBehaviors(a.value), loc, () => source.rewriteAttrValue(node, a, renameBehaviors));
+            } else if (a.value.includes('${')) {
+              edits += renameBehaviorsIn(interpolations(a.value).flatMap(findBehaviors), loc, () => source.rewriteAttrValue(node, a, renameInterpolatedBehaviors));
+            }
           }
           if (a.name.endsWith('.call')) {
             const base = a.name.slice(0, -'.call'.length);
-            a.name = `${base}.bind`;
-            const value = a.value.trim();
-            if (value.includes('=>')) {
-              reporter.edit(file, '*.call -> *.bind (kept existing arrow function)');
+            source.renameAttr(node, a, `${base}.bind`);
+            if (a.value.includes('=>')) {
+              reporter.edit(file, '*.call -> *.bind (kept existing arrow function)', undefined, undefined, { loc });
             } else {
-              a.value = `($event) => ${value}`;
-              reporter.edit(file, '*.call -> *.bind with lambda wrapper');
+              source.prefixAttrValue(node, a, '($event) => ');
+              reporter.edit(file, '*.call -> *.bind with lambda wrapper', undefined, undefined, { loc });
             }
             edits++;
           }
@@ -117,28 +474,47 @@ export function transformTemplates(files: string[], reporter: Reporter, options:
             const eventName = a.name.split('.')[0];
             const eventValue = a.value;
             
-            // Check if this is a potentially problematic event handler
-            if (isPotentiallyProblematicEvent(node, eventName, eventValue)) {
+            // Rewrite when opted in and the default action is known, otherwise warn
+            if (options.applyPrevent && hasPreventedDefaultAction(node, eventName, ancestors)) {
+              const name = `${eventName}.trigger:prevent`;
+              source.renameAttr(node, a, name);
+              edits++;
+              reporter.edit(file, '*.trigger -> *.trigger:prevent', `${originalName}="${eventValue}"`, `${name}="${eventValue}"`, { loc });
+            } else if (isPotentiallyProblematicEvent(node, eventName, ancestors)) {
               warnings++;
-              reporter.warn(file, `Event handler '${a.name}="${eventValue}"' may need :prevent modifier in Aurelia 2. In v1, preventDefault was called automatically, but not in v2. Consider '${eventName}.trigger:prevent' if needed.`);
+              reporter.warn(file, `Event handler '${a.name}="${eventValue}"' may need :prevent modifier in Aurelia 2. In v1, preventDefault was called automatically, but not in v2. Consider '${eventName}.trigger:prevent' if needed.`, { rule: 'templates/prevent-default', loc });
             }
           }
         }
       }
+      if (node.nodeName === '#text') {
+        const text = node as DefaultTreeAdapterTypes.TextNode;
+        if (text.value.includes('${') && text.value.includes('&')) {
+          const loc = text.sourceCodeLocation ? { line: text.sourceCodeLocation.startLine, col: text.sourceCodeLocation.startCol } : undefined;
+          edits += renameBehaviorsIn(interpolations(text.value).flatMap(findBehaviors), loc, () => source.rewriteText(text, renameInterpolatedBehaviors));
+        }
+      }
       // recurse
       const anyNode = node as any;
+      const childAncestors = isElement(node) ? [...ancestors, node] : ancestors;
       if (Array.isArray(anyNode.childNodes)) {
-        for (const child of anyNode.childNodes) visit(child);
+        for (const child of anyNode.childNodes) visit(child, childAncestors);
       }
       if (Array.isArray((anyNode as any).content?.childNodes)) {
-        for (const child of (anyNode as any).content.childNodes) visit(child);
+        for (const child of (anyNode as any).content.childNodes) visit(child, childAncestors);
       }
     }
 
-    visit(doc as DefaultTreeAdapterTypes.Node);
+    edits += convertBindableTemplate(doc, source, file, reporter);
+    visit(doc as DefaultTreeAdapterTypes.Node, []);
 
-    if (edits > 0 && options.write) {
-      fs.writeFileSync(file, serialize(doc as any), 'utf8');
+    if (edits > 0 && source.changed) {
+      const after = source.apply();
+      changes.push({ path: file, before: html, after });
+      if (options.write) {
+        fs.writeFileSync(file, after, 'utf8');
+      }
     }
   }
+  return changes;
 }
@@ -60,6 +60,30 @@ describe('writeReport', () => {
     expect(mdCall![2]).toBe('utf8');
   });
 
+  it('writes a SARIF report when requested', () => {
+    const reportData: ReportData = {
+      startedAt: '2023-01-01T10:00:00Z',
+      options: {},
+      entries: [
+        { file: 'test.ts', kind: 'warn', message: 'Manual review needed', rule: 'di/non-runtime-type', loc: { line: 2, col: 3 } }
+      ]
+    };
+
+    mockFs.mkdirSync.mockImplementation(() => undefined);
+    mockFs.writeFileSync.mockImplementation(() => {});
+
+    writeReport('/project', reportData, '.', { sarif: true });
+
+    expect(mockFs.writeFileSync).toHaveBeenCalledTimes(3);
+    const sarifCall = mockFs.writeFileSync.mock.calls.find(call => 
+      (call[0] as string).includes('au-rogue.report.sarif')
+    );
+    expect(sarifCall).toBeDefined();
+    const sarif = JSON.parse(sarifCall![1] as string);
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].results[0].ruleId).toBe('di/non-runtime-type');
+  });
+
   it('uses default output directory when not specified', () => {
     const reportData: ReportData = {
       startedAt: '2023-01-01T10:00:00Z',
@@ -203,4 +227,50 @@ describe('writeReport', () => {
     expect(markdown).toContain('Started: 2023-01-01T10:00:00Z');
     expect(markdown).not.toContain('Finished:');
   });
-});
\ No newline at end of file
+
+  it('renders entry locations as file:line:col links', () => {
+    const reportData: ReportData = {
+      startedAt: '2023-01-01T10:00:00Z',
+      options: {},
+      entries: [
+        { file: 'src/app.ts', kind: 'warn', message: 'Review needed', loc: { line: 3, col: 5 } },
+        { file: 'src/app.html', kind: 'edit', message: 'Renamed', loc: { line: 7 } }
+      ]
+    };
+
+    mockFs.mkdirSync.mockImplementation(() => undefined);
+    mockFs.writeFileSync.mockImplementation(() => {});
+
+    writeReport('/project', reportData);
+
+    const mdCall = mockFs.writeFileSync.mock.calls.find(call => 
+      (call[0] as string).includes('au-rogue.report.md')
+    );
+    const markdown = mdCall![1] as string;
+
+    expect(markdown).toContain('- [warn] [src/app.ts:3:5](src/app.ts#L3): Review needed');
+    expect(markdown).toContain('- [edit] [src/app.html:7](src/app.html#L7): Renamed');
+  });
+
+  it('appends the rule ID to findings', () => {
+    const reportData: ReportData = {
+      startedAt: '2023-01-01T10:00:00Z',
+      options: {},
+      entries: [
+        { file: 'src/app.html', kind: 'warn', message: 'Needs :prevent', rule: 'templates/prevent-default' }
+      ]
+    };
+
+    mockFs.mkdirSync.mockImplementation(() => undefined);
+    mockFs.writeFileSync.mockImplementation(() => {});
+
+    writeReport('/project', reportData);
+
+    const mdCall = mockFs.writeFileSync.mock.calls.find(call => 
+      (call[0] as string).includes('au-rogue.report.md')
+    );
+    const markdown = mdCall![1] as string;
+
+    expect(markdown).toContain('- [warn] src/app.html: Needs :prevent (`templates/prevent-default`)');
+  });
+});
@@ -1,8 +1,19 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { ReportData } from './types.js';
+import { ChangeEntry, FileChange, ReportData } from './types.js';
+import { toSarif } from './sarif.js';
+import { toHtml } from './html.js';
 
-export function writeReport(cwd: string, data: ReportData, outDir: string = '.') {
+export interface ReportFormats {
+  /** Also write au-rogue.report.sarif (SARIF 2.1.0). */
+  sarif?: boolean;
+  /** Also write au-rogue.report.html, a single file with filters and diffs. */
+  html?: boolean;
+  /** Changed files, shown as side-by-side diffs in the HTML report and as fixes in SARIF. */
+  files?: FileChange[];
+}
+
+export function writeReport(cwd: string, data: ReportData, outDir: string = '.', formats: ReportFormats = {}) {
   const dir = path.resolve(cwd, outDir);
   try {
     fs.mkdirSync(dir, { recursive: true });
@@ -10,10 +21,16 @@ export function writeReport(cwd: string, data: ReportData, outDir: string = '.')
   const jsonPath = path.join(dir, 'au-rogue.report.json');
   const mdPath = path.join(dir, 'au-rogue.report.md');
   fs.writeFileSync(jsonPath, JSON.stringify(data, null, 2), 'utf8');
-  fs.writeFileSync(mdPath, toMarkdown(data), 'utf8');
+  fs.writeFileSync(mdPath, toMarkdown(data, dir), 'utf8');
+  if (formats.sarif) {
+    fs.writeFileSync(path.join(dir, 'au-rogue.report.sarif'), JSON.stringify(toSarif(data, cwd, formats.files), null, 2), 'utf8');
+  }
+  if (formats.html) {
+    fs.writeFileSync(path.join(dir, 'au-rogue.report.html'), toHtml(data, cwd, formats.files), 'utf8');
+  }
 }
 
-function toMarkdown(data: ReportData): string {
+function toMarkdown(data: ReportData, dir: string): string {
   const lines: string[] = [];
   lines.push('# au-rogue migration report');
   lines.push('');
@@ -26,7 +43,7 @@ function toMarkdown(data: ReportData): string {
   lines.push('');
   lines.push('## Entries');
   for (const e of data.entries) {
-    lines.push(`- [${e.kind}] ${e.file}: ${e.message}`);
+    lines.push(`- [${e.kind}] ${fileRef(e, dir)}: ${e.message}${e.rule ? ` (\`${e.rule}\`)` : ''}`);
     if (e.before) {
       lines.push('```diff');
       lines.push(`- ${trim(e.before)}`);
@@ -42,6 +59,16 @@ function toMarkdown(data: ReportData): string {
   return lines.join('\n');
 }
 
+/**
+ * `file:line:col` linked to the line, relative to the report so links work from the report directory.
+ */
+function fileRef(e: ChangeEntry, dir: string): string {
+  if (!e.loc?.line) return e.file;
+  const label = e.loc.col ? `${e.file}:${e.loc.line}:${e.loc.col}` : `${e.file}:${e.loc.line}`;
+  const href = path.isAbsolute(e.file) ? path.relative(dir, e.file) : e.file;
+  return `[${label}](${href.split(path.sep).join('/')}#L${e.loc.line})`;
+}
+
 function countByKind(data: ReportData) {
   const res = { edit: 0, add: 0, remove: 0, warn: 0, note: 0 };
   for (const e of data.entries) {
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { rules, getRule, ruleCatalogMarkdown } from './rules';
+import { passes } from './passes/registry';
+
+function sourceFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(d => {
+    const file = path.join(dir, d.name);
+    if (d.isDirectory()) return sourceFiles(file);
+    return d.name.endsWith('.ts') && !d.name.endsWith('.test.ts') ? [file] : [];
+  });
+}
+
+describe('rule catalog', () => {
+  it('has unique IDs', () => {
+    const ids = rules.map(r => r.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('documents every rule', () => {
+    for (const rule of rules) {
+      expect(rule.summary).not.toBe('');
+      expect(rule.v1).not.toBe('');
+      expect(rule.v2).not.toBe('');
+      expect(rule.docs).toMatch(/^https:\/\//);
+    }
+  });
+
+  it('prefixes rules with a pass ID', () => {
+    const prefixes = new Set([...passes.map(p => p.id), 'project']);
+    for (const rule of rules) {
+      expect(prefixes).toContain(rule.id.split('/')[0]);
+    }
+  });
+
+  it('covers every rule the sources report', () => {
+    const used = new Set<string>();
+    for (const file of sourceFiles(__dirname)) {
+      for (const match of fs.readFileSync(file, 'utf8').matchAll(/rule: '([^']+)'/g)) {
+        used.add(match[1]);
+      }
+    }
+    expect(used.size).toBeGreaterThan(0);
+    for (const id of used) {
+      expect(getRule(id), id).toBeDefined();
+    }
+  });
+
+  it('renders a Markdown catalog', () => {
+    const md = ruleCatalogMarkdown();
+    expect(md).toContain('## templates/prevent-default');
+    expect(md).toContain('<form submit.trigger:prevent="save()">');
+    expect(md).toContain('Docs: https://');
+  });
+});
@@ -0,0 +1,610 @@
+/**
+ * Catalog of every finding au-rogue reports. IDs are stable across releases so findings
+ * can be tracked between runs, linked from tickets and tuned in the config file.
+ */
+export interface RuleDefinition {
+  id: string;
+  /** Severity used when the config file does not override it. */
+  severity: 'warn' | 'note';
+  summary: string;
+  v1: string;
+  v2: string;
+  docs: string;
+}
+
+const MIGRATION_DOCS = 'https://docs.aurelia.io/developer-guides/migrating-to-aurelia-2';
+const LIFECYCLE_DOCS = 'https://docs.aurelia.io/components/component-lifecycles';
+const ROUTER_DOCS = 'https://docs.aurelia.io/router';
+const DI_DOCS = 'https://docs.aurelia.io/getting-to-know-aurelia/dependency-injection-di';
+const TEMPLATE_DOCS = 'https://docs.aurelia.io/templates/template-syntax';
+
+export const rules: RuleDefinition[] = [
+  {
+    id: 'binding-engine/not-parameter-property',
+    severity: 'warn',
+    summary: 'BindingEngine is injected through a plain constructor parameter and cannot be replaced automatically.',
+    v1: 'constructor(bindingEngine: BindingEngine) { this.engine = bindingEngine; }',
+    v2: 'engine = createAureliaBindingEngine();',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'binding-engine/property-conflict',
+    severity: 'warn',
+    summary: 'The class already declares a property with the name of the BindingEngine parameter.',
+    v1: 'engine: unknown;\nconstructor(private engine: BindingEngine) {}',
+    v2: 'private engine = createAureliaBindingEngine();',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'binding-engine/remaining-references',
+    severity: 'warn',
+    summary: 'BindingEngine is still referenced after the injection was replaced.',
+    v1: 'const engine = container.get(BindingEngine);',
+    v2: 'const observer = resolve(IObserverLocator).getObserver(obj, prop);',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'binding-syntax/ast-method',
+    severity: 'warn',
+    summary: 'AST nodes no longer have evaluate/assign/bind/unbind/accept methods.',
+    v1: 'binding.sourceExpression.evaluate(scope, locator);',
+    v2: 'astEvaluate(binding.ast, scope, binding, null);',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'bootstrap/manual-migration',
+    severity: 'warn',
+    summary: 'The Aurelia 1 bootstrap in main.ts has to be rewritten.',
+    v1: 'export function configure(aurelia) {\n  aurelia.use.standardConfiguration();\n  aurelia.start().then(() => aurelia.setRoot());\n}',
+    v2: "Aurelia.register(...).app(App).start();",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'bootstrap/example',
+    severity: 'note',
+    summary: 'Generated Aurelia 2 bootstrap code based on the detected configuration.',
+    v1: "aurelia.use.plugin('aurelia-dialog');",
+    v2: 'Aurelia.register(DialogConfiguration).app(App).start();',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'bootstrap/plugin-manual',
+    severity: 'warn',
+    summary: 'A plugin has no known Aurelia 2 equivalent.',
+    v1: "aurelia.use.plugin('aurelia-some-plugin');",
+    v2: '// find or write an Aurelia 2 version of the plugin',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'bootstrap/plugin-available',
+    severity: 'note',
+    summary: 'A plugin has an Aurelia 2 package.',
+    v1: "aurelia.use.plugin('aurelia-validation');",
+    v2: 'Aurelia.register(ValidationConfiguration);',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'bootstrap/features',
+    severity: 'warn',
+    summary: 'Features are not a concept in Aurelia 2.',
+    v1: "aurelia.use.feature('resources');",
+    v2: 'Aurelia.register(ResourcesConfiguration);',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'bootstrap/webpack',
+    severity: 'warn',
+    summary: 'Webpack specific bootstrap code is not needed in Aurelia 2.',
+    v1: "require.ensure([], () => aurelia.setRoot('app'));",
+    v2: "Aurelia.app(App).start();",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'bootstrap/aurelia-app',
+    severity: 'note',
+    summary: 'aurelia-app attributes in index.html are no longer used.',
+    v1: '<body aurelia-app="main">',
+    v2: '<body><my-app></my-app></body>',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'bootstrap/script-tags',
+    severity: 'note',
+    summary: 'aurelia-bootstrapper script references need to be replaced.',
+    v1: '<script src="scripts/vendor-bundle.js" data-main="aurelia-bootstrapper"></script>',
+    v2: '<script type="module" src="/src/main.ts"></script>',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'bootstrap/compat-package',
+    severity: 'note',
+    summary: '@aurelia/compat-v1 can keep v1 only APIs working during the migration.',
+    v1: '@noView()\nexport class Widget {}',
+    v2: "import { compatRegistration } from '@aurelia/compat-v1';\nAurelia.register(compatRegistration);",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'project/compat-mode',
+    severity: 'note',
+    summary: 'Compat mode was requested on the command line.',
+    v1: 'au-rogue --compat',
+    v2: 'Aurelia.register(compatRegistration);',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'computed/method',
+    severity: 'warn',
+    summary: '@computedFrom was used on a method, which v2 cannot observe.',
+    v1: "@computedFrom('a')\ntotal() { return this.a; }",
+    v2: "@computed('a')\nget total() { return this.a; }",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'computed/property',
+    severity: 'warn',
+    summary: '@computedFrom was used on a property, which v2 cannot observe.',
+    v1: "@computedFrom('a')\ntotal = 0;",
+    v2: "@computed('a')\nget total() { return this.a; }",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'computed/unsupported-location',
+    severity: 'warn',
+    summary: '@computedFrom was found somewhere other than a class member.',
+    v1: "const decorate = computedFrom('a');",
+    v2: "@computed('a')\nget total() { return this.a; }",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'computed/no-dependencies',
+    severity: 'warn',
+    summary: '@computedFrom without dependencies was removed.',
+    v1: '@computedFrom()\nget total() { return this.a; }',
+    v2: 'get total() { return this.a; }',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'custom-element/inline-view-no-template',
+    severity: 'warn',
+    summary: '@inlineView has no template argument.',
+    v1: '@inlineView()\nexport class Widget {}',
+    v2: "@customElement({ name: 'widget', template: '<template></template>' })",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'custom-element/inline-view-extra-args',
+    severity: 'warn',
+    summary: '@inlineView dependencies are not carried over.',
+    v1: "@inlineView('<template></template>', [Dep])",
+    v2: "@customElement({ name: 'widget', template: '<template></template>', dependencies: [Dep] })",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'custom-element/inline-view-not-call',
+    severity: 'warn',
+    summary: '@inlineView is used without being called.',
+    v1: '@inlineView\nexport class Widget {}',
+    v2: "@customElement({ name: 'widget', template: '...' })",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'custom-element/template-exists',
+    severity: 'warn',
+    summary: '@customElement already declares a template next to @inlineView/@noView.',
+    v1: "@customElement({ template: a })\n@inlineView(b)",
+    v2: "@customElement({ template: a })",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'custom-element/unexpected-arguments',
+    severity: 'warn',
+    summary: '@customElement has arguments au-rogue does not understand.',
+    v1: "@customElement('widget', extra)",
+    v2: "@customElement({ name: 'widget', template })",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'di/generated-token',
+    severity: 'warn',
+    summary: 'An interface typed injection needed a DI.createInterface token.',
+    v1: 'constructor(private logger: ILogger) {}',
+    v2: "export const ILoggerToken = DI.createInterface<ILogger>('ILogger');\nlogger = resolve(ILoggerToken);",
+    docs: DI_DOCS
+  },
+  {
+    id: 'di/non-runtime-type',
+    severity: 'warn',
+    summary: 'A parameter property type has no runtime value to resolve.',
+    v1: 'constructor(private options: { debug: boolean }) {}',
+    v2: 'options = resolve(IOptions);',
+    docs: DI_DOCS
+  },
+  {
+    id: 'di/inject-manual',
+    severity: 'warn',
+    summary: '@inject could not be matched to constructor parameters that are only stored on the instance.',
+    v1: '@inject(HttpClient)\nexport class Api {\n  constructor(http) { this.http = http.configure(c => c); }\n}',
+    v2: 'export class Api {\n  http = resolve(HttpClient).configure(c => c);\n}',
+    docs: DI_DOCS
+  },
+  {
+    id: 'di/resolver-manual',
+    severity: 'warn',
+    summary: 'A resolver decorator has no faithful Aurelia 2 resolver, such as @parent or optional without a parent lookup.',
+    v1: 'constructor(@parent private shell: Shell) {}',
+    v2: "shell = resolve(IContainer).parent?.get(Shell);  // check the container hierarchy",
+    docs: DI_DOCS
+  },
+  {
+    id: 'di/static-inject-kept',
+    severity: 'note',
+    summary: 'A JS static inject list was kept, as an array property, because it could not become resolve() fields.',
+    v1: 'static inject() { return [HttpClient]; }',
+    v2: 'static inject = [HttpClient];',
+    docs: DI_DOCS
+  },
+  {
+    id: 'lifecycle/promise-not-async',
+    severity: 'warn',
+    summary: 'A lifecycle hook returns a Promise without being async.',
+    v1: 'attached(): Promise<void> { return load(); }',
+    v2: 'async attached() { await load(); }',
+    docs: LIFECYCLE_DOCS
+  },
+  {
+    id: 'lifecycle/attached-without-detached',
+    severity: 'warn',
+    summary: 'attached() has no matching detached().',
+    v1: 'attached() { this.start(); }',
+    v2: 'attached() { this.start(); }\ndetached() { this.stop(); }',
+    docs: LIFECYCLE_DOCS
+  },
+  {
+    id: 'lifecycle/bind-without-unbind',
+    severity: 'warn',
+    summary: 'bind() has no matching unbind()/unbinding().',
+    v1: 'bind() { this.subscribe(); }',
+    v2: 'binding() { this.subscribe(); }\nunbinding() { this.unsubscribe(); }',
+    docs: LIFECYCLE_DOCS
+  },
+  {
+    id: 'lifecycle/router-hooks',
+    severity: 'warn',
+    summary: 'Router lifecycle hooks have different signatures in the v2 router.',
+    v1: 'activate(params, routeConfig, instruction) {}',
+    v2: 'loading(params, next, current) {}',
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'lifecycle/bind-and-attached',
+    severity: 'note',
+    summary: 'The class relies on bind() and attached() ordering.',
+    v1: 'bind() {}\nattached() {}',
+    v2: 'binding() {}\nbound() {}\nattaching() {}\nattached() {}',
+    docs: LIFECYCLE_DOCS
+  },
+  {
+    id: 'lifecycle/suggest-bound',
+    severity: 'note',
+    summary: 'Work after binding can move to the new bound() hook.',
+    v1: 'bind() { this.afterBind(); }',
+    v2: 'bound() { this.afterBind(); }',
+    docs: LIFECYCLE_DOCS
+  },
+  {
+    id: 'lifecycle/suggest-attaching',
+    severity: 'note',
+    summary: 'Work before DOM attachment can move to the new attaching() hook.',
+    v1: 'attached() { this.prepare(); }',
+    v2: 'attaching() { this.prepare(); }',
+    docs: LIFECYCLE_DOCS
+  },
+  {
+    id: 'lifecycle/dom-in-bind',
+    severity: 'warn',
+    summary: 'bind() touches the DOM before it is attached.',
+    v1: "bind() { document.querySelector('#x').focus(); }",
+    v2: "attached() { document.querySelector('#x').focus(); }",
+    docs: LIFECYCLE_DOCS
+  },
+  {
+    id: 'lifecycle/attached-without-cleanup',
+    severity: 'warn',
+    summary: 'attached() sets up timers or listeners without a detached() to clean them up.',
+    v1: 'attached() { this.timer = setInterval(tick, 1000); }',
+    v2: 'attached() { this.timer = setInterval(tick, 1000); }\ndetached() { clearInterval(this.timer); }',
+    docs: LIFECYCLE_DOCS
+  },
+  {
+    id: 'platform/module-name-arguments',
+    severity: 'warn',
+    summary: 'PLATFORM.moduleName() was called with an unexpected number of arguments.',
+    v1: "PLATFORM.moduleName('./page', 'chunk')",
+    v2: "() => import('./page')",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'platform/manual-method',
+    severity: 'warn',
+    summary: 'A PLATFORM member other than moduleName needs a manual replacement.',
+    v1: 'PLATFORM.global.setTimeout(fn)',
+    v2: 'resolve(IPlatform).setTimeout(fn)',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'platform/dom',
+    severity: 'warn',
+    summary: 'PLATFORM.DOM has no direct replacement.',
+    v1: "PLATFORM.DOM.createElement('div')",
+    v2: "resolve(IPlatform).document.createElement('div')",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'registration/container-instance',
+    severity: 'warn',
+    summary: 'Container.instance is a v1 global container with no v2 equivalent.',
+    v1: 'const api = Container.instance.get(Api);',
+    v2: 'const api = resolve(IContainer).get(Api);',
+    docs: DI_DOCS
+  },
+  {
+    id: 'registration/handler-signature',
+    severity: 'warn',
+    summary: 'registerHandler() became Registration.callback(), whose second argument is the requesting container instead of the key.',
+    v1: 'container.registerHandler(Api, (c, key) => c.get(ApiFactory).create(key));',
+    v2: 'container.register(Registration.callback(Api, (c, requestor) => c.get(ApiFactory).create(Api)));',
+    docs: DI_DOCS
+  },
+  {
+    id: 'registration/lifetime-arguments',
+    severity: 'warn',
+    summary: '@singleton or @transient has v1 arguments that do not map onto the v2 decorator options.',
+    v1: '@singleton(true)',
+    v2: '@singleton({ scoped: true })',
+    docs: DI_DOCS
+  },
+  {
+    id: 'registration/unknown-container',
+    severity: 'warn',
+    summary: 'A register*() call looks like v1 container registration, but the receiver is not known to be an Aurelia container.',
+    v1: "import { container } from 'tsyringe';\ncontainer.registerSingleton(Api);",
+    v2: 'container.register(Registration.singleton(Api, Api));',
+    docs: DI_DOCS
+  },
+  {
+    id: 'router/configure-router',
+    severity: 'warn',
+    summary: 'configureRouter() has to be rewritten for the v2 router.',
+    v1: "configureRouter(config, router) {\n  config.map([{ route: '', moduleId: './home' }]);\n}",
+    v2: "@route({ routes: [{ path: '', component: () => import('./home') }] })",
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'router/migration-options',
+    severity: 'note',
+    summary: 'Ways to express routes in Aurelia 2.',
+    v1: 'configureRouter(config, router) {}',
+    v2: "static routes = [...]; or @route(...)",
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'router/title',
+    severity: 'note',
+    summary: 'Router titles are configured per route in v2.',
+    v1: "config.title = 'My App';",
+    v2: "@route({ title: 'My App' })",
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'router/child-routes',
+    severity: 'warn',
+    summary: 'Child routes are declared on the child component in v2.',
+    v1: "settings: { childRoutes: [...] }",
+    v2: "@route({ routes: [...] }) on the child component",
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'router/route-parameters',
+    severity: 'note',
+    summary: 'Route parameter syntax differs.',
+    v1: "route: 'users/:id'",
+    v2: "path: 'users/:id'",
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'router/wildcard-routes',
+    severity: 'note',
+    summary: 'Wildcard route syntax differs.',
+    v1: "route: 'files/*path'",
+    v2: "path: 'files/*path'",
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'router/url-generation',
+    severity: 'warn',
+    summary: 'URL generation APIs changed.',
+    v1: "router.generate('user', { id })",
+    v2: "router.load('user', { params: { id } })",
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'router/navigation-instruction',
+    severity: 'warn',
+    summary: 'NavigationInstruction does not exist in the v2 router.',
+    v1: 'activate(params, config, instruction: NavigationInstruction) {}',
+    v2: 'loading(params: Params, next: RouteNode) {}',
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'router/instruction-config',
+    severity: 'warn',
+    summary: 'Route configuration is not reachable through the instruction anymore.',
+    v1: 'instruction.config.settings',
+    v2: 'next.data',
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'router/route-params-access',
+    severity: 'note',
+    summary: 'Route parameters are passed differently.',
+    v1: 'instruction.params.id',
+    v2: 'loading(params) { params.id }',
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'router/navigate',
+    severity: 'note',
+    summary: 'Navigation calls have different options.',
+    v1: "router.navigateToRoute('user', { id })",
+    v2: "router.load('user', { params: { id } })",
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'router/events',
+    severity: 'warn',
+    summary: 'Router events have different names and payloads.',
+    v1: "ea.subscribe('router:navigation:complete', fn)",
+    v2: "resolve(IRouterEvents).subscribe('au:router:navigation-end', fn)",
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'router/migration-guide',
+    severity: 'note',
+    summary: 'General router migration checklist, emitted once per project.',
+    v1: "import { Router } from 'aurelia-router';",
+    v2: "import { IRouter } from '@aurelia/router';",
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'templates/replaceable-without-part',
+    severity: 'warn',
+    summary: '<template replaceable> has no part name, so no au-slot name can be derived.',
+    v1: '<template replaceable>...</template>',
+    v2: '<au-slot name="body">...</au-slot>',
+    docs: TEMPLATE_DOCS
+  },
+  {
+    id: 'templates/replace-part-scope',
+    severity: 'warn',
+    summary: 'A replace-part template uses $parent. Projected au-slot content binds to the outer scope, the custom element is $host.',
+    v1: '<template replace-part="cell">${$parent.item.name}</template>',
+    v2: '<template au-slot="cell">${$host.item.name}</template>',
+    docs: TEMPLATE_DOCS
+  },
+  {
+    id: 'templates/bindable-option',
+    severity: 'warn',
+    summary: 'An entry in <template bindable> is not a plain property name and was not converted.',
+    v1: '<template bindable="title, items.two-way">',
+    v2: '<bindable name="items" mode="two-way"></bindable>',
+    docs: TEMPLATE_DOCS
+  },
+  {
+    id: 'templates/root-template-attributes',
+    severity: 'warn',
+    summary: 'The root <template> of an HTML-only element has other attributes, so the wrapper was kept.',
+    v1: '<template bindable="title" class="card">',
+    v2: '<template class="card">\n  <bindable name="title"></bindable>',
+    docs: TEMPLATE_DOCS
+  },
+  {
+    id: 'templates/no-v2-equivalent',
+    severity: 'warn',
+    summary: 'A binding target has no Aurelia 2 equivalent.',
+    v1: '<my-element view.ref="myView">',
+    v2: '<my-element component.ref="myViewModel">',
+    docs: TEMPLATE_DOCS
+  },
+  {
+    id: 'templates/route-href',
+    severity: 'warn',
+    summary: 'A route-href has a shape au-rogue does not convert to load automatically.',
+    v1: '<a route-href.bind="routeName">',
+    v2: '<a load="route.bind: routeName">',
+    docs: ROUTER_DOCS
+  },
+  {
+    id: 'templates/compose-module-path',
+    severity: 'warn',
+    summary: 'A <compose> view-model is a module path. au-compose takes a component class or instance.',
+    v1: '<compose view-model="./widget">',
+    v2: "import { Widget } from './widget';\n<au-compose component.bind=\"Widget\">",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'templates/compose-view-path',
+    severity: 'warn',
+    summary: 'A <compose> view is a path or view strategy. au-compose takes template markup.',
+    v1: '<compose view="./card.html">',
+    v2: "import template from './card.html';\n<au-compose template.bind=\"template\">",
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'templates/compose-containerless',
+    severity: 'warn',
+    summary: 'containerless on <compose> does not carry over to <au-compose>.',
+    v1: '<compose view-model="./widget" containerless>',
+    v2: '@containerless\nexport class Widget {}',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'templates/compose-activate',
+    severity: 'note',
+    summary: 'The composed view model was found; its activate(model) is checked against the bound model.',
+    v1: 'activate(model) { this.item = model; } // called by <compose>',
+    v2: 'activate(model) { this.item = model; } // called by <au-compose> before binding()',
+    docs: MIGRATION_DOCS
+  },
+  {
+    id: 'templates/prevent-default',
+    severity: 'warn',
+    summary: 'v1 called preventDefault() for event bindings, v2 only does so with :prevent.',
+    v1: '<form submit.delegate="save()">',
+    v2: '<form submit.trigger:prevent="save()">',
+    docs: TEMPLATE_DOCS
+  },
+  {
+    id: 'template-members/unknown-member',
+    severity: 'warn',
+    summary: 'A template binding looks up a name that is not a member of the paired view-model class.',
+    v1: '<input value.bind="userName">  <!-- class declares username -->',
+    v2: '<input value.bind="username">',
+    docs: TEMPLATE_DOCS
+  }
+];
+
+export function getRule(id: string): RuleDefinition | undefined {
+  return rules.find(r => r.id === id);
+}
+
+/**
+ * Markdown catalog of every rule, written by `au-rogue --list-rules`.
+ */
+export function ruleCatalogMarkdown(): string {
+  const lines: string[] = [];
+  lines.push('# au-rogue rules');
+  lines.push('');
+  lines.push('Every warning and note in the report carries one of these IDs. Override severities in `au-rogue.config` under `rules`.');
+  lines.push('');
+  for (const rule of rules) {
+    lines.push(`## ${rule.id}`);
+    lines.push('');
+    lines.push(`Default severity: ${rule.severity}`);
+    lines.push('');
+    lines.push(rule.summary);
+    lines.push('');
+    lines.push('Aurelia 1:');
+    lines.push('```');
+    lines.push(rule.v1);
+    lines.push('```');
+    lines.push('');
+    lines.push('Aurelia 2:');
+    lines.push('```');
+    lines.push(rule.v2);
+    lines.push('```');
+    lines.push('');
+    lines.push(`Docs: ${rule.docs}`);
+    lines.push('');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'node:path';
+import { SarifFix, toSarif } from './sarif';
+import { FileChange, ReportData } from './types';
+
+const cwd = path.resolve('/project');
+
+/**
+ * Apply replacements the way a SARIF consumer would, last offset first.
+ */
+function applyFix(text: string, fix: SarifFix): string {
+  const replacements = [...fix.artifactChanges[0].replacements].sort((a, b) => b.deletedRegion.charOffset! - a.deletedRegion.charOffset!);
+  for (const { deletedRegion, insertedContent } of replacements) {
+    text = text.slice(0, deletedRegion.charOffset) + (insertedContent?.text ?? '') + text.slice(deletedRegion.charOffset! + deletedRegion.charLength!);
+  }
+  return text;
+}
+
+function report(entries: ReportData['entries']): ReportData {
+  return { startedAt: '2023-01-01T10:00:00Z', options: {}, entries };
+}
+
+describe('toSarif', () => {
+  it('writes a SARIF 2.1.0 log with the rules that were reported', () => {
+    const log = toSarif(report([
+      { file: path.join(cwd, 'src/app.html'), kind: 'warn', message: 'Needs :prevent', rule: 'templates/prevent-default', loc: { line: 4, col: 9 } },
+      { file: path.join(cwd, 'src/other.html'), kind: 'warn', message: 'Needs :prevent', rule: 'templates/prevent-default' }
+    ]), cwd);
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].tool.driver.name).toBe('au-rogue');
+    expect(log.runs[0].tool.driver.rules).toEqual([{
+      id: 'templates/prevent-default',
+      shortDescription: { text: expect.stringContaining(':prevent') },
+      helpUri: expect.stringMatching(/^https:\/\//),
+      defaultConfiguration: { level: 'warning' }
+    }]);
+  });
+
+  it('turns warnings into results with rule ID, location and message', () => {
+    const [result] = toSarif(report([
+      { file: path.join(cwd, 'src/app.html'), kind: 'warn', message: 'Needs :prevent', rule: 'templates/prevent-default', loc: { line: 4, col: 9 } }
+    ]), cwd).runs[0].results;
+
+    expect(result).toEqual({
+      ruleId: 'templates/prevent-default',
+      kind: 'fail',
+      level: 'warning',
+      message: { text: 'Needs :prevent' },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: 'src/app.html', uriBaseId: 'SRCROOT' },
+          region: { startLine: 4, startColumn: 9 }
+        }
+      }]
+    });
+  });
+
+  it('does not build fixes from entry labels', () => {
+    const [result] = toSarif(report([
+      { file: 'src/app.ts', kind: 'edit', message: 'unbind() -> unbinding()', loc: { line: 2, col: 3 }, before: 'unbind(c', after: 'unbinding()' }
+    ]), cwd).runs[0].results;
+
+    expect(result.kind).toBe('informational');
+    expect(result.level).toBe('none');
+    expect(result.fixes).toBeUndefined();
+  });
+
+  it('attaches fixes that turn each changed file into its new contents', () => {
+    const files: FileChange[] = [
+      {
+        path: path.join(cwd, 'src/app.ts'),
+        before: 'export class App {\n  unbind(ctx: any) {\n  }\n}\n',
+        after: 'export class App {\n  unbinding() {\n  }\n}\n'
+      },
+      {
+        path: path.join(cwd, 'src/card.html'),
+        before: '<template bindable="title, items">\n  ${title}\n</template>',
+        after: '<bindable name="title"></bindable>\n<bindable name="items"></bindable>\n\n  ${title}\n'
+      },
+      {
+        path: path.join(cwd, 'src/main.ts'),
+        before: 'import { a } from "b";\nimport { autoinject } from "aurelia-framework";\nrun(a);\n',
+        after: 'import { resolve } from "aurelia";\nimport { a } from "b";\nrun(a);\n'
+      }
+    ];
+    const log = toSarif(report([
+      { file: path.join(cwd, 'src/app.ts'), kind: 'warn', message: 'Check unbinding', rule: 'lifecycle/attached-without-detached' },
+      { file: path.join(cwd, 'src/app.ts'), kind: 'edit', message: 'unbind() -> unbinding()', loc: { line: 2, col: 3 }, before: 'unbind(c', after: 'unbinding()' },
+      { file: 'src/card.html', kind: 'edit', message: 'Converted <template bindable>', loc: { line: 1, col: 1 } }
+    ]), cwd, files);
+    const results = log.runs[0].results;
+
+    expect(results[0].fixes).toBeUndefined();
+    expect(results.map(r => r.fixes?.[0].artifactChanges[0].artifactLocation.uri)).toEqual([undefined, 'src/app.ts', 'src/card.html', 'src/main.ts']);
+    expect(results[3]).toMatchObject({ kind: 'informational', level: 'none', message: { text: 'au-rogue changes to src/main.ts' } });
+    results.slice(1).forEach((result, i) => {
+      expect(applyFix(files[i].before, result.fixes![0])).toBe(files[i].after);
+    });
+  });
+
+  it('leaves project-wide entries without a location', () => {
+    const [result] = toSarif(report([
+      { file: 'ROUTER_MIGRATION', kind: 'note', message: 'Router Migration Guide:', rule: 'router/migration-guide' }
+    ]), cwd).runs[0].results;
+
+    expect(result.level).toBe('note');
+    expect(result.locations).toBeUndefined();
+  });
+});
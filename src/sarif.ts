@@ -0,0 +1,175 @@
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { ChangeEntry, FileChange, ReportData } from './types.js';
+import { getRule } from './rules.js';
+import { lineReplacements } from './diff.js';
+
+/**
+ * Minimal SARIF 2.1.0 shapes, only the parts au-rogue writes.
+ */
+export interface SarifRegion {
+  startLine?: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+  charOffset?: number;
+  charLength?: number;
+}
+
+export interface SarifArtifactLocation {
+  uri: string;
+  uriBaseId?: string;
+}
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: SarifArtifactLocation;
+    region?: SarifRegion;
+  };
+}
+
+export interface SarifFix {
+  description: { text: string };
+  artifactChanges: {
+    artifactLocation: SarifArtifactLocation;
+    replacements: { deletedRegion: SarifRegion; insertedContent?: { text: string } }[];
+  }[];
+}
+
+export interface SarifResult {
+  ruleId?: string;
+  kind: 'fail' | 'informational';
+  level: 'warning' | 'note' | 'none';
+  message: { text: string };
+  locations?: SarifLocation[];
+  fixes?: SarifFix[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        rules: {
+          id: string;
+          shortDescription: { text: string };
+          helpUri: string;
+          defaultConfiguration: { level: 'warning' | 'note' };
+        }[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    results: SarifResult[];
+  }[];
+}
+
+const SRCROOT = 'SRCROOT';
+
+/**
+ * Warnings and notes become results, edits, adds and removes informational results.
+ * Pseudo files such as PROJECT have no location. Fixes come from the changed file contents,
+ * not the entries, since an entry's before/after is often a label rather than the exact
+ * source it replaced: each changed file's fix goes on its first edit, add or remove result,
+ * or on a result of its own when no entry names the file.
+ */
+export function toSarif(data: ReportData, cwd: string, files: FileChange[] = []): SarifLog {
+  const ruleIds = Array.from(new Set(data.entries.map(e => e.rule).filter((id): id is string => !!id)));
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'au-rogue',
+          informationUri: 'https://github.com/Vheissu/au-rogue',
+          rules: ruleIds.map(id => {
+            const rule = getRule(id);
+            return {
+              id,
+              shortDescription: { text: rule?.summary ?? id },
+              helpUri: rule?.docs ?? 'https://github.com/Vheissu/au-rogue',
+              defaultConfiguration: { level: rule?.severity === 'note' ? 'note' : 'warning' }
+            };
+          })
+        }
+      },
+      originalUriBaseIds: { [SRCROOT]: { uri: pathToFileURL(cwd).href.replace(/\/?$/, '/') } },
+      results: withFixes(data.entries, cwd, files)
+    }]
+  };
+}
+
+function withFixes(entries: ChangeEntry[], cwd: string, files: FileChange[]): SarifResult[] {
+  const results = entries.map(e => toResult(e, cwd));
+  for (const change of files) {
+    const replacements = lineReplacements(change.before, change.after);
+    if (replacements.length === 0) continue;
+    const artifactLocation = artifact(change.path, cwd);
+    const fix: SarifFix = {
+      description: { text: `au-rogue changes to ${artifactLocation.uri}` },
+      artifactChanges: [{
+        artifactLocation,
+        replacements: replacements.map(r => ({
+          deletedRegion: { charOffset: r.offset, charLength: r.length },
+          ...(r.text ? { insertedContent: { text: r.text } } : {})
+        }))
+      }]
+    };
+    const index = entries.findIndex(e => e.kind !== 'warn' && e.kind !== 'note' && !isPseudoFile(e.file) && path.resolve(cwd, e.file) === path.resolve(cwd, change.path));
+    if (index >= 0) {
+      results[index].fixes = [fix];
+    } else {
+      results.push({
+        kind: 'informational',
+        level: 'none',
+        message: { text: fix.description.text },
+        locations: [{ physicalLocation: { artifactLocation } }],
+        fixes: [fix]
+      });
+    }
+  }
+  return results;
+}
+
+function toResult(e: ChangeEntry, cwd: string): SarifResult {
+  const finding = e.kind === 'warn' || e.kind === 'note';
+  const result: SarifResult = {
+    kind: finding ? 'fail' : 'informational',
+    level: e.kind === 'warn' ? 'warning' : e.kind === 'note' ? 'note' : 'none',
+    message: { text: e.message }
+  };
+  if (e.rule) result.ruleId = e.rule;
+
+  if (!isPseudoFile(e.file)) {
+    const artifactLocation = artifact(e.file, cwd);
+    result.locations = [{
+      physicalLocation: e.loc?.line
+        ? { artifactLocation, region: { startLine: e.loc.line, startColumn: e.loc.col } }
+        : { artifactLocation }
+    }];
+  }
+
+  return result;
+}
+
+function artifact(file: string, cwd: string): SarifArtifactLocation {
+  if (!path.isAbsolute(file)) return { uri: toUri(file), uriBaseId: SRCROOT };
+  const rel = path.relative(cwd, file);
+  if (rel.startsWith('..') || path.isAbsolute(rel)) return { uri: pathToFileURL(file).href };
+  return { uri: toUri(rel), uriBaseId: SRCROOT };
+}
+
+function toUri(file: string) {
+  return file.split(path.sep).map(encodeURIComponent).join('/');
+}
+
+/**
+ * Project-wide entries use upper case placeholders instead of paths.
+ */
+function isPseudoFile(file: string) {
+  return /^[A-Z_]+$/.test(file);
+}
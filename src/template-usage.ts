@@ -0,0 +1,231 @@
+import { parseFragment, DefaultTreeAdapterTypes } from 'parse5';
+import * as ts from 'typescript';
+import { SourceLocation } from './types.js';
+import { interpolations } from './passes/template-source.js';
+
+type Element = DefaultTreeAdapterTypes.Element;
+
+/**
+ * Globals a binding expression can reach without going through the scope.
+ */
+const globals = new Set([
+  'Infinity', 'NaN', 'undefined', 'isFinite', 'isNaN', 'parseFloat', 'parseInt',
+  'decodeURI', 'decodeURIComponent', 'encodeURI', 'encodeURIComponent',
+  'Array', 'BigInt', 'Boolean', 'Date', 'Map', 'Number', 'Object', 'RegExp', 'Set', 'String',
+  'JSON', 'Math', 'Intl'
+]);
+
+/**
+ * Binding commands whose value is an expression evaluated against the scope.
+ */
+const expressionCommands = new Set([
+  'bind', 'one-way', 'to-view', 'two-way', 'from-view', 'one-time',
+  'trigger', 'delegate', 'capture', 'call'
+]);
+
+/**
+ * The parser keeps syntax errors on the source file without declaring them publicly.
+ */
+interface ParsedSourceFile extends ts.SourceFile {
+  parseDiagnostics: ts.DiagnosticWithLocation[];
+}
+
+function isElement(n: DefaultTreeAdapterTypes.Node): n is Element {
+  return (n as any).tagName !== undefined;
+}
+
+function attrLoc(element: Element, name: string): SourceLocation | undefined {
+  const loc = element.sourceCodeLocation?.attrs?.[name] ?? element.sourceCodeLocation;
+  return loc ? { line: loc.startLine, col: loc.startCol } : undefined;
+}
+
+function camelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Split on a single-character operator outside strings and brackets. Doubled operators
+ * (`||`, `&&`) are left alone.
+ */
+function splitTopLevel(text: string, op: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote && text[i - 1] !== '\\') quote = '';
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if (ch === '(' || ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ')' || ch === ']' || ch === '}') {
+      depth--;
+    } else if (ch === op && depth === 0 && text[i - 1] !== op && text[i + 1] !== op) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * The expression and the arguments of its value converters and binding behaviors. The
+ * converter and behavior names themselves are resources, not scope lookups.
+ */
+function expressionParts(value: string): string[] {
+  const [withConverters, ...behaviors] = splitTopLevel(value, '&');
+  const [expression, ...converters] = splitTopLevel(withConverters, '|');
+  return [expression, ...[...converters, ...behaviors].flatMap(c => splitTopLevel(c, ':').slice(1))];
+}
+
+function bindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap(e => ts.isOmittedExpression(e) ? [] : bindingNames(e.name));
+}
+
+/**
+ * Identifiers an expression looks up in the scope, or undefined when it does not parse as
+ * JavaScript. Property names and arrow function parameters are not lookups.
+ */
+function scopeLookups(expression: string): string[] | undefined {
+  if (!expression.trim()) return [];
+  const text = `(${expression})`;
+  const sf = ts.createSourceFile('binding.ts', text, ts.ScriptTarget.Latest, false, ts.ScriptKind.TS) as ParsedSourceFile;
+  if (sf.parseDiagnostics.length) return undefined;
+
+  const found: string[] = [];
+  function visit(node: ts.Node, locals: Set<string>) {
+    if (ts.isArrowFunction(node)) {
+      const inner = new Set(locals);
+      for (const p of node.parameters) for (const name of bindingNames(p.name)) inner.add(name);
+      visit(node.body, inner);
+    } else if (ts.isIdentifier(node)) {
+      if (!locals.has(node.text)) found.push(node.text);
+    } else if (ts.isPropertyAccessExpression(node)) {
+      visit(node.expression, locals);
+    } else if (ts.isPropertyAssignment(node)) {
+      if (ts.isComputedPropertyName(node.name)) visit(node.name.expression, locals);
+      visit(node.initializer, locals);
+    } else {
+      ts.forEachChild(node, child => visit(child, locals));
+    }
+  }
+  visit(sf, new Set());
+  return found;
+}
+
+/**
+ * Names the template itself adds to the view model: `ref`s and `<let>` targets are
+ * assigned to the binding context, `<bindable>` declares a property.
+ */
+function templateDeclarations(root: DefaultTreeAdapterTypes.Node): Set<string> {
+  const declared = new Set<string>();
+  function walk(node: DefaultTreeAdapterTypes.Node) {
+    if (isElement(node)) {
+      for (const a of node.attrs) {
+        if (a.name === 'ref' || a.name.endsWith('.ref')) declared.add(a.value.trim());
+        if (node.tagName === 'let') declared.add(camelCase(a.name.split('.')[0]));
+      }
+      if (node.tagName === 'bindable') {
+        const name = node.attrs.find(a => a.name === 'name')?.value.trim();
+        if (name) declared.add(name);
+      }
+    }
+    const anyNode = node as any;
+    for (const child of anyNode.childNodes ?? []) walk(child);
+    for (const child of anyNode.content?.childNodes ?? []) walk(child);
+  }
+  walk(root);
+  return declared;
+}
+
+/**
+ * A name a template looks up on its view model.
+ */
+export interface TemplateUsage {
+  name: string;
+  /** The binding it appears in, `value.bind="name"` or `${name}`. */
+  label: string;
+  loc?: SourceLocation;
+}
+
+/**
+ * Names the template's bindings, `${}` interpolations, `repeat.for` sources and event
+ * handlers look up on the view model, once per binding. Repeat and promise locals,
+ * `$`-prefixed contextual names, globals, refs, `<let>` and `<bindable>` declarations are
+ * left out, as are converter and behavior names and expressions that do not parse. Nothing
+ * inside `with.bind`, `as-custom-element`, script or style is included.
+ */
+export function templateUsage(html: string): TemplateUsage[] {
+  const doc = parseFragment(html, { sourceCodeLocationInfo: true });
+  const declared = templateDeclarations(doc);
+  const usage: TemplateUsage[] = [];
+  const seen = new Set<string>();
+
+  function check(value: string, label: string, locals: Set<string>, loc: SourceLocation | undefined) {
+    for (const part of expressionParts(value)) {
+      for (const name of scopeLookups(part) ?? []) {
+        if (name.startsWith('$') || globals.has(name) || locals.has(name) || declared.has(name)) continue;
+        const key = `${name}@${loc?.line}:${loc?.col}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        usage.push({ name, label, loc });
+      }
+    }
+  }
+
+  function visit(node: DefaultTreeAdapterTypes.Node, locals: Set<string>) {
+    if (isElement(node)) {
+      // Local elements have their own view model
+      if (node.attrs.some(a => a.name === 'as-custom-element')) return;
+      if (node.tagName === 'script' || node.tagName === 'style') return;
+
+      // repeat.for and promise results are visible to the other bindings on the element
+      const scope = new Set(locals);
+      const repeat = node.attrs.find(a => a.name === 'repeat.for');
+      if (repeat) {
+        const match = /^\s*([\s\S]+?)\s+of\s+([\s\S]+)$/.exec(repeat.value);
+        if (match) {
+          check(match[2], `repeat.for="${repeat.value}"`, locals, attrLoc(node, repeat.name));
+          for (const name of match[1].match(/[A-Za-z_$][\w$]*/g) ?? []) scope.add(name);
+        }
+      }
+      for (const a of node.attrs) {
+        if (/^(then|catch)(\.from-view)?$/.test(a.name) && a.value.trim()) scope.add(a.value.trim());
+      }
+
+      let opensScope = false;
+      for (const a of node.attrs) {
+        if (a === repeat) continue;
+        const dot = a.name.lastIndexOf('.');
+        const command = a.name.slice(dot + 1).split(':')[0];
+        if (dot > 0 && expressionCommands.has(command)) {
+          check(a.value, `${a.name}="${a.value}"`, scope, attrLoc(node, a.name));
+          if (a.name.startsWith('with.')) opensScope = true;
+        } else if (a.value.includes('${')) {
+          for (const expression of interpolations(a.value)) {
+            check(expression, `\${${expression}}`, scope, attrLoc(node, a.name));
+          }
+        }
+      }
+      // Inside with.bind names resolve against the object first
+      if (opensScope) return;
+      locals = scope;
+    } else if (node.nodeName === '#text') {
+      const text = node as DefaultTreeAdapterTypes.TextNode;
+      const loc = text.sourceCodeLocation ? { line: text.sourceCodeLocation.startLine, col: text.sourceCodeLocation.startCol } : undefined;
+      for (const expression of interpolations(text.value)) {
+        check(expression, `\${${expression}}`, locals, loc);
+      }
+    }
+    const anyNode = node as any;
+    for (const child of anyNode.childNodes ?? []) visit(child, locals);
+    for (const child of anyNode.content?.childNodes ?? []) visit(child, locals);
+  }
+
+  visit(doc as DefaultTreeAdapterTypes.Node, new Set());
+  return usage;
+}
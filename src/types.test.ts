@@ -115,4 +115,41 @@ describe('Reporter', () => {
     expect(result.entries).toHaveLength(2);
     expect(reporter.data.entries).toHaveLength(2);
   });
-});
\ No newline at end of file
+
+  it('records rule IDs on findings', () => {
+    const reporter = new Reporter({});
+
+    reporter.warn('test.ts', 'Has attached()', { rule: 'lifecycle/attached-without-detached' });
+
+    expect(reporter.data.entries[0].rule).toBe('lifecycle/attached-without-detached');
+  });
+
+  it('applies rule severity overrides', () => {
+    const reporter = new Reporter({}, {
+      'lifecycle/attached-without-detached': 'note',
+      'lifecycle/suggest-bound': 'off',
+      'lifecycle/bind-and-attached': 'warn'
+    });
+
+    reporter.warn('test.ts', 'Has attached()', { rule: 'lifecycle/attached-without-detached' });
+    reporter.note('test.ts', 'Consider bound()', { rule: 'lifecycle/suggest-bound' });
+    reporter.note('test.ts', 'Has bind() and attached()', { rule: 'lifecycle/bind-and-attached' });
+    reporter.warn('test.ts', 'No rule');
+
+    expect(reporter.data.entries.map(e => e.kind)).toEqual(['note', 'warn', 'warn']);
+    expect(reporter.data.entries.map(e => e.message)).toEqual(['Has attached()', 'Has bind() and attached()', 'No rule']);
+  });
+
+  it('records locations on every entry kind', () => {
+    const reporter = new Reporter({});
+    const loc = { line: 4, col: 2 };
+
+    reporter.edit('test.ts', 'Edit', 'a', 'b', { loc });
+    reporter.add('test.ts', 'Add', 'b', { loc });
+    reporter.remove('test.ts', 'Remove', 'a', { loc });
+    reporter.warn('test.ts', 'Warn', { loc });
+    reporter.note('test.ts', 'Note', { loc });
+
+    expect(reporter.data.entries.map(e => e.loc)).toEqual([loc, loc, loc, loc, loc]);
+  });
+});
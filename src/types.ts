@@ -1,14 +1,42 @@
 export type ChangeKind = 'edit' | 'add' | 'remove' | 'warn' | 'note';
 
+/**
+ * Severity override for a rule. 'off' drops the finding from the report.
+ */
+export type RuleSeverity = 'warn' | 'note' | 'off';
+
+/**
+ * 1-based line and column of the node an entry is about.
+ */
+export interface SourceLocation {
+  line?: number;
+  col?: number;
+}
+
+export interface EntryMeta {
+  /** Stable rule ID, e.g. 'lifecycle/attached-without-detached'. */
+  rule?: string;
+  loc?: SourceLocation;
+}
+
 export interface ChangeEntry {
   file: string;
   kind: ChangeKind;
   message: string;
-  loc?: { line?: number; col?: number };
+  rule?: string;
+  loc?: SourceLocation;
+  /** ID of the pass that reported the entry. */
+  pass?: string;
   before?: string;
   after?: string;
 }
 
+export interface FileChange {
+  path: string;
+  before: string;
+  after: string;
+}
+
 export interface ReportData {
   startedAt: string;
   finishedAt?: string;
@@ -18,8 +46,12 @@ export interface ReportData {
 
 export class Reporter {
   data: ReportData;
+  rules: Record<string, RuleSeverity>;
+  /** Pass currently running, recorded on every entry it reports. */
+  pass?: string;
 
-  constructor(options: Record<string, any>) {
+  constructor(options: Record<string, any>, rules: Record<string, RuleSeverity> = {}) {
+    this.rules = rules;
     this.data = {
       startedAt: new Date().toISOString(),
       options,
@@ -27,24 +59,30 @@ export class Reporter {
     };
   }
 
-  edit(file: string, message: string, before?: string, after?: string) {
-    this.data.entries.push({ file, kind: 'edit', message, before, after });
+  edit(file: string, message: string, before?: string, after?: string, meta: EntryMeta = {}) {
+    this.data.entries.push({ file, kind: 'edit', message, rule: meta.rule, loc: meta.loc, pass: this.pass, before, after });
+  }
+
+  warn(file: string, message: string, meta: EntryMeta = {}) {
+    this.finding(file, 'warn', message, meta);
   }
 
-  warn(file: string, message: string) {
-    this.data.entries.push({ file, kind: 'warn', message });
+  note(file: string, message: string, meta: EntryMeta = {}) {
+    this.finding(file, 'note', message, meta);
   }
 
-  note(file: string, message: string) {
-    this.data.entries.push({ file, kind: 'note', message });
+  add(file: string, message: string, after?: string, meta: EntryMeta = {}) {
+    this.data.entries.push({ file, kind: 'add', message, rule: meta.rule, loc: meta.loc, pass: this.pass, after });
   }
 
-  add(file: string, message: string, after?: string) {
-    this.data.entries.push({ file, kind: 'add', message, after });
+  remove(file: string, message: string, before?: string, meta: EntryMeta = {}) {
+    this.data.entries.push({ file, kind: 'remove', message, rule: meta.rule, loc: meta.loc, pass: this.pass, before });
   }
 
-  remove(file: string, message: string, before?: string) {
-    this.data.entries.push({ file, kind: 'remove', message, before });
+  private finding(file: string, kind: 'warn' | 'note', message: string, meta: EntryMeta) {
+    const severity = meta.rule ? this.rules[meta.rule] : undefined;
+    if (severity === 'off') return;
+    this.data.entries.push({ file, kind: severity ?? kind, message, rule: meta.rule, loc: meta.loc, pass: this.pass });
   }
 
   finish() {